@@ -0,0 +1,53 @@
+import { timingSafeEqual } from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { Logger } from './logging';
+
+// Admin API authentication
+// Callers present a configured key as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+
+export interface AdminApiKey {
+    identity: string; // Name logged with every admin action
+    key: string;
+}
+
+function keysMatch(candidate: string, key: string): boolean {
+    const candidateBuffer = Buffer.from(candidate);
+    const keyBuffer = Buffer.from(key);
+    return candidateBuffer.length === keyBuffer.length && timingSafeEqual(candidateBuffer, keyBuffer);
+}
+
+function extractKey(req: Request): string | null {
+    const authorization = req.header('authorization');
+    if (authorization && authorization.toLowerCase().startsWith('bearer ')) {
+        return authorization.substring('bearer '.length).trim();
+    }
+    return req.header('x-api-key') || null;
+}
+
+// Sets res.locals.adminIdentity for authenticated requests and rejects everything else with 401
+export function createAdminAuth(apiKeys: AdminApiKey[], logger: Logger): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const candidate = extractKey(req);
+        const match = candidate ? apiKeys.find(apiKey => keysMatch(candidate, apiKey.key)) : undefined;
+
+        if (!match) {
+            logger.warn(`🚫 Unauthorized admin request: ${req.method} ${req.path} from ${req.ip}`);
+            res.status(401).json({ error: 'Unauthorized' });
+            return;
+        }
+
+        res.locals.adminIdentity = match.identity;
+        next();
+    };
+}
+
+export function parseAdminApiKeys(value: string): AdminApiKey[] {
+    return value.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0).map((entry, index) => {
+        const separator = entry.indexOf(':');
+        if (separator < 1 || separator === entry.length - 1) {
+            // Do not echo the entry, it contains the key
+            throw new Error(`Invalid admin API key entry #${index + 1}: expected identity:key`);
+        }
+        return { identity: entry.substring(0, separator), key: entry.substring(separator + 1) };
+    });
+}
@@ -0,0 +1,504 @@
+import { decode, encode } from '@msgpack/msgpack';
+import { mkdtempSync, rmSync } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import WebSocket, { WebSocketServer } from 'ws';
+import { initApp, YahooWebSocketProxyApp } from './app';
+import { JoinTokenClaims, signJoinToken } from './auth';
+import { SlowClientPolicy } from './config';
+
+const logger = { info: () => {}, error: () => {}, warn: () => {}, debug: () => {} };
+
+const ADMIN_KEY = 'admin-key';
+
+interface ProxyMessage {
+    type: string;
+    [key: string]: any;
+}
+
+// A client of the proxy that keeps every message it receives, read back into the JSON form
+// whatever its encoding
+class TestClient {
+    public readonly messages: ProxyMessage[] = [];
+    public readonly closed: Promise<{ code: number; reason: string }>;
+    private waiters: (() => void)[] = [];
+
+    constructor(public readonly ws: WebSocket) {
+        ws.on('message', (data, isBinary) => {
+            this.messages.push(TestClient.read(data as Buffer, isBinary));
+            this.waiters.forEach(waiter => waiter());
+        });
+        this.closed = new Promise(resolve => ws.on('close', (code, reason) => resolve({ code, reason: reason.toString() })));
+    }
+
+    // Resolves with the first message matching the predicate, including ones already received
+    public next(predicate: (message: ProxyMessage) => boolean, timeoutMs = 2000): Promise<ProxyMessage> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error('Timed out waiting for a proxy message')), timeoutMs);
+            const check = () => {
+                const message = this.messages.find(predicate);
+                if (message) {
+                    clearTimeout(timer);
+                    this.waiters = this.waiters.filter(waiter => waiter !== check);
+                    resolve(message);
+                }
+            };
+            this.waiters.push(check);
+            check();
+        });
+    }
+
+    public ofType(type: string): ProxyMessage[] {
+        return this.messages.filter(message => message.type === type);
+    }
+
+    // MessagePack arrives in binary frames, lean Yahoo frames as `<seq>:<frame>` text
+    private static read(data: Buffer, isBinary: boolean): ProxyMessage {
+        if (isBinary) {
+            return decode(data) as ProxyMessage;
+        }
+        const text = data.toString();
+        const lean = text.startsWith('{') ? null : /^(\d*):(.*)$/s.exec(text);
+        return lean ? { type: 'yahoo_message', data: lean[2], ...(lean[1] ? { seq: Number(lean[1]) } : {}) } : JSON.parse(text);
+    }
+}
+
+// Stands in for Yahoo's draft server: keeps every connection and the frames sent on it
+class FakeYahoo {
+    public readonly sockets: WebSocket[] = [];
+    public readonly received: string[] = [];
+    public url = '';
+    private server!: WebSocketServer;
+
+    public async start(): Promise<void> {
+        this.server = new WebSocketServer({ port: 0 });
+        await new Promise(resolve => this.server.once('listening', resolve));
+        this.url = `ws://localhost:${(this.server.address() as AddressInfo).port}`;
+        this.server.on('connection', (ws) => {
+            this.sockets.push(ws);
+            ws.on('message', data => this.received.push(data.toString()));
+        });
+    }
+
+    public get latest(): WebSocket {
+        return this.sockets[this.sockets.length - 1];
+    }
+
+    public close(): Promise<void> {
+        this.sockets.forEach(ws => ws.terminate());
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
+
+const eventually = async (check: () => boolean | Promise<boolean>, timeoutMs = 2000): Promise<void> => {
+    const deadline = Date.now() + timeoutMs;
+    while (!(await check())) {
+        if (Date.now() > deadline) {
+            throw new Error('Timed out waiting for a condition');
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+};
+
+describe('YahooWebSocketProxyApp', () => {
+    let yahoo: FakeYahoo;
+    let app: YahooWebSocketProxyApp;
+    let server: Server;
+    let draftStoreDir: string;
+    let clients: TestClient[];
+
+    beforeEach(async () => {
+        yahoo = new FakeYahoo();
+        await yahoo.start();
+        draftStoreDir = mkdtempSync(join(tmpdir(), 'proxy-drafts-'));
+        app = await initApp({
+            port: 0,
+            shutdownTimeoutMs: 0,
+            env: 'test',
+            allowUnsignedJoin: true,
+            adminApiKeys: [{ identity: 'test', key: ADMIN_KEY }],
+            draftStoreDir,
+            room: { reconnectBaseDelayMs: 40, reconnectMaxDelayMs: 100, maxReconnectAttempts: 3, resumeWindowSize: 5 },
+            // One league per slow-client policy
+            leagues: Object.fromEntries(Object.values(SlowClientPolicy).map(slowClientPolicy => [
+                `slow-${slowClientPolicy}`,
+                { slowClientPolicy, clientBufferSoftLimitBytes: 1000, clientBufferHardLimitBytes: 100000 }
+            ]))
+        }, logger);
+        server = createServer(app.requestListener);
+        app.setupWebSocketServer(server);
+        await new Promise<void>(resolve => server.listen(0, resolve));
+        clients = [];
+    });
+
+    afterEach(async () => {
+        // Rooms the proxy sees emptied after shutdown would schedule a cleanup that outlives the test
+        clients.forEach(client => client.ws.terminate());
+        await eventually(async () => (await health()).totalClients === 0);
+        await app.shutdown();
+        await new Promise(resolve => server.close(resolve));
+        await yahoo.close();
+        rmSync(draftStoreDir, { recursive: true, force: true });
+    });
+
+    const baseUrl = () => `localhost:${(server.address() as AddressInfo).port}`;
+
+    const health = async () => (await fetch(`http://${baseUrl()}/health`)).json();
+
+    const exportDraft = async () => (await fetch(`http://${baseUrl()}/drafts/L1/export`, { headers: { 'X-API-Key': ADMIN_KEY } })).json();
+
+    const connect = (params: Record<string, string>, subprotocols: string[] = []): TestClient => {
+        const query = new URLSearchParams({ leagueId: 'L1', draftPosition: '1', websocketUrl: yahoo.url, ...params });
+        const client = new TestClient(new WebSocket(`ws://${baseUrl()}/yahoo/websocket/connection?${query}`, subprotocols));
+        clients.push(client);
+        return client;
+    };
+
+    describe('late joiners', () => {
+        it('replays the cached Yahoo frames instead of reconnecting the seat', async () => {
+            const first = connect({});
+            await eventually(() => yahoo.received.length > 0);
+            yahoo.latest.send('9|L1|1');
+            yahoo.latest.send('4|1|1|1|p1');
+            await first.next(message => message.type === 'yahoo_message' && message.data === '4|1|1|1|p1');
+
+            const late = connect({ role: 'spectator' });
+            const end = await late.next(message => message.type === 'snapshot_end');
+
+            expect(late.ofType('snapshot_start')).toEqual([expect.objectContaining({ frameCount: 2 })]);
+            expect(end.frameCount).toBe(2);
+            expect(late.ofType('yahoo_message').map(message => message.data)).toEqual(['9|L1|1', '4|1|1|1|p1']);
+            expect(yahoo.sockets).toHaveLength(1);
+        });
+    });
+
+    describe('draft completion', () => {
+        const draftOnePick = async (client: TestClient, nextClock: string | null) => {
+            await eventually(() => yahoo.received.length > 0);
+            yahoo.latest.send('5|1|1|1|90');
+            yahoo.latest.send('4|1|1|1|p1');
+            if (nextClock) {
+                yahoo.latest.send(nextClock);
+            }
+            await client.next(message => message.type === 'yahoo_message' && message.data === (nextClock ?? '4|1|1|1|p1'));
+        };
+
+        it('ends the draft when Yahoo closes normally with no pick left on the clock', async () => {
+            const client = connect({});
+            await draftOnePick(client, null);
+
+            yahoo.latest.close(1000, 'Draft over');
+            await client.next(message => message.type === 'yahoo_disconnected');
+
+            expect(await exportDraft()).toMatchObject({ completed: true, picks: [expect.objectContaining({ playerId: 'p1' })] });
+            await new Promise(resolve => setTimeout(resolve, 150));
+            expect(client.ofType('yahoo_reconnecting')).toEqual([]);
+            expect(yahoo.sockets).toHaveLength(1);
+        });
+
+        it('reconnects after a normal close with a pick on the clock', async () => {
+            const client = connect({});
+            await draftOnePick(client, '5|2|1|2|90');
+
+            yahoo.latest.close(1000, 'Server rotation');
+            await client.next(message => message.type === 'yahoo_reconnecting');
+
+            expect(await exportDraft()).toMatchObject({ completed: false });
+            await eventually(() => yahoo.sockets.length === 2);
+        });
+    });
+
+    describe('reconnection backoff', () => {
+        afterEach(() => jest.restoreAllMocks());
+
+        // Yahoo drops the connection and then refuses every reconnection
+        const loseYahoo = async (client: TestClient) => {
+            await eventually(() => yahoo.received.length > 0);
+            await yahoo.close();
+            return client.next(message => message.type === 'yahoo_max_reconnect_reached');
+        };
+
+        const reconnectDelays = (client: TestClient) => client.ofType('yahoo_reconnecting').map(message => [message.attempt, message.delayMs]);
+
+        it('doubles the delay up to the cap, then gives up after the last attempt', async () => {
+            jest.spyOn(Math, 'random').mockReturnValue(1);
+            const client = connect({});
+
+            expect(await loseYahoo(client)).toMatchObject({ attempt: 3, maxAttempts: 3 });
+            expect(reconnectDelays(client)).toEqual([[1, 40], [2, 80], [3, 100]]);
+        });
+
+        it('waits at least half of the exponential delay', async () => {
+            jest.spyOn(Math, 'random').mockReturnValue(0);
+            const client = connect({});
+
+            await loseYahoo(client);
+            expect(reconnectDelays(client)).toEqual([[1, 20], [2, 40], [3, 50]]);
+        });
+
+        it('starts a fresh backoff sequence once a reconnection opens', async () => {
+            const client = connect({});
+            await client.next(message => message.type === 'yahoo_connected');
+
+            yahoo.latest.terminate();
+            await eventually(() => client.ofType('yahoo_connected').length === 2);
+            yahoo.latest.terminate();
+            await eventually(() => client.ofType('yahoo_reconnecting').length === 2);
+
+            expect(client.ofType('yahoo_reconnecting').map(message => message.attempt)).toEqual([1, 1]);
+        });
+    });
+
+    describe('resume', () => {
+        // Joins, receives a first frame and drops; returns the token and the seq of that frame
+        const joinAndDrop = async (params: Record<string, string> = {}) => {
+            const client = connect(params);
+            const joined = await client.next(message => message.type === 'room_joined');
+            await eventually(() => yahoo.received.length > 0);
+            yahoo.latest.send('5|1|1|1|90');
+            const seen = await client.next(message => message.data === '5|1|1|1|90');
+            client.ws.terminate();
+            await eventually(async () => (await health()).totalClients === 0);
+            return { resumeToken: joined.resumeToken as string, lastSeq: String(seen.seq) };
+        };
+
+        it('replays the messages missed while the client was away', async () => {
+            const { resumeToken, lastSeq } = await joinAndDrop();
+            yahoo.latest.send('4|1|1|1|p1');
+            yahoo.latest.send('5|2|1|2|90');
+
+            const resumed = connect({ resumeToken, lastSeq });
+            await resumed.next(message => message.data === '5|2|1|2|90');
+
+            expect(resumed.ofType('room_joined')).toEqual([expect.objectContaining({ resumed: true, resumeToken, seq: Number(lastSeq) })]);
+            expect(resumed.ofType('yahoo_message').map(message => message.data)).toEqual(['4|1|1|1|p1', '5|2|1|2|90']);
+            expect(yahoo.sockets).toHaveLength(1);
+        });
+
+        it('refuses an unknown token and joins the client as new', async () => {
+            const client = connect({ resumeToken: 'not-a-token', lastSeq: '0' });
+
+            expect(await client.next(message => message.type === 'resume_failed')).toMatchObject({ reason: 'invalid_token' });
+            expect(await client.next(message => message.type === 'room_joined')).not.toHaveProperty('resumed');
+        });
+
+        it('refuses a token presented with another draft position', async () => {
+            const { resumeToken, lastSeq } = await joinAndDrop();
+
+            const client = connect({ resumeToken, lastSeq, draftPosition: '2' });
+
+            expect(await client.next(message => message.type === 'resume_failed')).toMatchObject({ reason: 'identity_mismatch' });
+        });
+
+        it('asks for a full resync when the missed messages are no longer retained', async () => {
+            const { resumeToken, lastSeq } = await joinAndDrop();
+            for (let overallPick = 2; overallPick <= 8; overallPick++) {
+                yahoo.latest.send(`5|${overallPick}|1|1|90`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            const client = connect({ resumeToken, lastSeq });
+            const failed = await client.next(message => message.type === 'resume_failed');
+
+            expect(failed.reason).toBe('gap');
+            expect(failed.oldestSeq).toBeGreaterThan(Number(lastSeq) + 1);
+        });
+
+        it('closes a resumed client whose Yahoo connection cannot be started', async () => {
+            const first = connect({ websocketUrl: 'ftp://localhost/draft' });
+            const joined = await first.next(message => message.type === 'room_joined');
+            await first.closed;
+
+            const resumed = connect({ websocketUrl: 'ftp://localhost/draft', resumeToken: joined.resumeToken, lastSeq: String(joined.seq) });
+
+            expect(await resumed.closed).toEqual({ code: 4014, reason: 'Cannot connect to Yahoo' });
+            expect(resumed.ofType('room_joined')).toEqual([expect.objectContaining({ resumed: true })]);
+        });
+    });
+
+    describe('client encodings', () => {
+        // The Yahoo frames and upstream notices a client received
+        const relayed = (client: TestClient) => client.messages.filter(message => ['yahoo_message', 'yahoo_disconnected'].includes(message.type));
+
+        it.each(['lean', 'msgpack'])('delivers the same messages in %s as in JSON', async (encoding) => {
+            const json = connect({});
+            await json.next(message => message.type === 'yahoo_connected');
+            const other = connect({ role: 'spectator' }, [`yahoo-proxy.v1.${encoding}`]);
+            await other.next(message => message.type === 'room_joined');
+
+            yahoo.latest.send('4|1|1|1|p1|"quoted"');
+            yahoo.latest.terminate();
+            await Promise.all([json, other].map(client => client.next(message => message.type === 'yahoo_reconnecting')));
+
+            expect(other.ws.protocol).toBe(`yahoo-proxy.v1.${encoding}`);
+            expect(relayed(json)).toEqual([expect.objectContaining({ data: '4|1|1|1|p1|"quoted"', seq: expect.any(Number) }), expect.objectContaining({ type: 'yahoo_disconnected' })]);
+            expect(relayed(other)).toEqual(relayed(json));
+        });
+
+        it('picks the encoding from the query params without a subprotocol', async () => {
+            const client = connect({ protocolVersion: '1', encoding: 'msgpack' });
+            const binary: boolean[] = [];
+            client.ws.on('message', (_data, isBinary) => binary.push(isBinary));
+            await client.next(message => message.type === 'yahoo_connected');
+
+            yahoo.latest.send('4|1|1|1|p1');
+            const frame = await client.next(message => message.type === 'yahoo_message');
+
+            expect(frame.data).toBe('4|1|1|1|p1');
+            expect(binary).toEqual(client.messages.map(() => true));
+        });
+
+        it('sends MessagePack frames from the client to Yahoo', async () => {
+            const client = connect({}, ['yahoo-proxy.v1.msgpack']);
+            await client.next(message => message.type === 'yahoo_connected');
+
+            client.ws.send(encode({ type: 'yahoo_message', data: '4|1|1|1|p1' }));
+
+            await eventually(() => yahoo.received.includes('4|1|1|1|p1'));
+        });
+
+        it('closes a client asking for an encoding the server does not speak', async () => {
+            const client = connect({ encoding: 'xml' });
+
+            expect(await client.closed).toMatchObject({ code: 4013 });
+        });
+    });
+
+    describe('upstream connection failures', () => {
+        it('closes the client when the connection to Yahoo cannot be started', async () => {
+            const client = connect({ websocketUrl: 'ftp://localhost/draft' });
+
+            expect(await client.closed).toEqual({ code: 4014, reason: 'Cannot connect to Yahoo' });
+        });
+    });
+
+    describe('slow clients', () => {
+        // The send buffer every proxy socket reports
+        let bufferedAmount: number;
+
+        beforeEach(() => {
+            bufferedAmount = 0;
+            jest.spyOn(WebSocket.prototype, 'bufferedAmount', 'get').mockImplementation(() => bufferedAmount);
+        });
+
+        afterEach(() => jest.restoreAllMocks());
+
+        // Joins the policy's league and returns the seq of the last frame delivered before lagging
+        const joinBeforeLagging = async (client: TestClient) => {
+            await eventually(() => yahoo.received.length > 0);
+            yahoo.latest.send('9|L1|1');
+            const ack = await client.next(message => message.data === '9|L1|1');
+            return ack.seq as number;
+        };
+
+        // While the client lags: two superseded clocks, a heartbeat, the latest clock and a pick
+        const sendWhileLagging = async (client: TestClient) => {
+            bufferedAmount = 5000;
+            ['5|1|1|1|90', 'c', '5|1|1|1|60', '5|1|1|1|30', '4|1|1|1|p1'].forEach(frame => yahoo.latest.send(frame));
+            await client.next(message => message.data === '4|1|1|1|p1');
+        };
+
+        // Frames sent to the client after it joined, with resync notices named by their type
+        const delivered = (client: TestClient) => client.messages
+            .filter(message => message.type === 'yahoo_message' || message.type === 'resync_required')
+            .map(message => message.data ?? message.type);
+
+        it('coalesces state frames and drops heartbeats, then asks the client to resync', async () => {
+            const client = connect({ leagueId: 'slow-coalesce' });
+            const lastSeq = await joinBeforeLagging(client);
+            await sendWhileLagging(client);
+
+            bufferedAmount = 0;
+            yahoo.latest.send('5|2|1|2|90');
+            await client.next(message => message.data === '5|2|1|2|90');
+
+            expect(delivered(client)).toEqual(['9|L1|1', '4|1|1|1|p1', '5|1|1|1|30', 'resync_required', '5|2|1|2|90']);
+            expect(client.ofType('resync_required')).toEqual([expect.objectContaining({ reason: 'slow_consumer', fromSeq: lastSeq + 1, droppedCount: 1, coalescedCount: 2 })]);
+        });
+
+        it('drops state frames and heartbeats, then asks the client to resync', async () => {
+            const client = connect({ leagueId: 'slow-drop' });
+            const lastSeq = await joinBeforeLagging(client);
+            await sendWhileLagging(client);
+
+            bufferedAmount = 0;
+            yahoo.latest.send('5|2|1|2|90');
+            await client.next(message => message.data === '5|2|1|2|90');
+
+            expect(delivered(client)).toEqual(['9|L1|1', '4|1|1|1|p1', 'resync_required', '5|2|1|2|90']);
+            expect(client.ofType('resync_required')).toEqual([expect.objectContaining({ fromSeq: lastSeq + 1, droppedCount: 4, coalescedCount: 0 })]);
+        });
+
+        it('disconnects a client over the soft limit', async () => {
+            const client = connect({ leagueId: 'slow-disconnect' });
+            await joinBeforeLagging(client);
+
+            bufferedAmount = 5000;
+            yahoo.latest.send('4|1|1|1|p1');
+
+            expect(await client.closed).toEqual({ code: 4009, reason: 'Client too slow; reconnect and resume' });
+            expect(client.ofType('yahoo_message').map(message => message.data)).toEqual(['9|L1|1']);
+        });
+
+        it('disconnects a client over the hard limit whatever the policy', async () => {
+            const client = connect({ leagueId: 'slow-coalesce' });
+            await joinBeforeLagging(client);
+
+            bufferedAmount = 200000;
+            yahoo.latest.send('4|1|1|1|p1');
+
+            expect(await client.closed).toEqual({ code: 4009, reason: 'Client too slow; reconnect and resume' });
+        });
+    });
+});
+
+describe('YahooWebSocketProxyApp room readers', () => {
+    const SECRET = 'join-token-secret';
+    let app: YahooWebSocketProxyApp;
+    let server: Server;
+
+    const claims: JoinTokenClaims = {
+        leagueId: 'L1',
+        draftPosition: 1,
+        platformUserId: 'user-1',
+        websocketUrl: 'wss://pub-api-rw.fantasysports.yahoo.com/draft',
+        exp: Math.floor(Date.now() / 1000) + 60
+    };
+
+    beforeEach(async () => {
+        app = await initApp({ port: 0, shutdownTimeoutMs: 0, env: 'test', joinTokenSecret: SECRET }, logger);
+        server = createServer(app.requestListener);
+        await new Promise<void>(resolve => server.listen(0, resolve));
+    });
+
+    afterEach(async () => {
+        await app.shutdown();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    const openEvents = async (token?: string) => {
+        const query = token ? `?token=${encodeURIComponent(token)}` : '';
+        const response = await fetch(`http://localhost:${(server.address() as AddressInfo).port}/rooms/L1/events${query}`);
+        return { status: response.status, body: await response.json() };
+    };
+
+    it('refuses an event stream without a join token when unsigned joins are off', async () => {
+        expect(await openEvents()).toEqual({ status: 401, body: { error: 'Missing join token' } });
+    });
+
+    it('refuses join tokens that do not verify', async () => {
+        expect((await openEvents(signJoinToken(claims, 'other-secret'))).status).toBe(401);
+        expect((await openEvents(signJoinToken({ ...claims, exp: 1 }, SECRET))).status).toBe(401);
+        expect((await openEvents('not.a.token')).status).toBe(401);
+    });
+
+    it('refuses a join token for another league', async () => {
+        expect(await openEvents(signJoinToken({ ...claims, leagueId: 'L2' }, SECRET))).toEqual({ status: 403, body: { error: 'Join token is for a different league' } });
+    });
+
+    it('looks up the room once the join token is accepted', async () => {
+        expect(await openEvents(signJoinToken(claims, SECRET))).toEqual({ status: 404, body: { error: 'Room not found' } });
+    });
+});
@@ -1,46 +1,241 @@
 import express from 'express';
 import WebSocket, { WebSocketServer } from 'ws';
+import Redis from 'ioredis';
 import cors from 'cors';
 import { v4 as uuidv4 } from 'uuid';
+import { createHash } from 'crypto';
 import { IncomingMessage } from 'http';
+import { LookupFunction } from 'net';
 import { Server } from 'http';
+import { ClockEvent, DraftEvent, YahooFrameCode, decodeYahooFrame, encodeHeartbeatFrame, encodeJoinFrame, encodePickFrame, isLeagueWideEvent } from './protocol';
+import { CLIENT_ROLES, ClientRole, JoinTokenError, verifyJoinToken } from './auth';
+import { UpstreamPolicy, UpstreamRefusedError, checkUpstreamUrl, createGuardedLookup } from './upstream';
+import { AdminApiKey, createAdminAuth } from './admin';
+import { FrameDirection, metrics, recordFrame, registry } from './metrics';
+import { SessionRecorder, createSessionRecorder } from './recorder';
+import { DraftBoard, DraftBoardState } from './board';
+import { DRAFT_EXPORT_FORMATS, DraftExportFormat, DraftResult, DraftStore, draftResultToCsv } from './drafts';
+import { PersistedRoom, saveState, takeState } from './state';
+import { FileWebhookStore, RedisWebhookStore, WebhookDispatcher, WebhookStore, WebhookSubscriptionError } from './webhooks';
+import { ClientJoin, ClientSocket, InMemoryRoomRegistry, NodeMessage, RedisRoomRegistry, RemoteClientSocket, RoomRegistry } from './registry';
+import { CRITICAL_DELIVERY, FrameDelivery, SlowClientBacklog, yahooFrameDelivery } from './backpressure';
+import { FrameRateLimiter } from './ratelimit';
+import { CLIENT_ENCODINGS, ClientEncoding, ClientProtocol, EncodedMessage, decodeMessagePackFrame, encodeClientMessage, parseSubprotocol, transcodeClientPayload } from './encoding';
+import { AutopickData, CLIENT_PROTOCOL_VERSION, ClientErrorCode, ClientMessageError, MAX_DRAFT_POSITION, ReconnectData, isSupportedProtocolVersion, isValidDraftPosition, isValidLeagueId, parseClientMessage, parseIntegerParam } from './schema';
+import { DEFAULT_ROOM_SETTINGS, RoomRegistryKind, RoomSettings, SlowClientPolicy, UpstreamMode } from './config';
+import { leagueAttributes, otelMetrics, recordSpanError, tracer, withSpan } from './telemetry';
+import { Span, context, trace } from '@opentelemetry/api';
 
 // Types
 interface ClientConnection {
+    ws: ClientSocket;
+    room: Room;
+}
+
+// A client on this node whose league is owned by another node
+interface RelayedClient {
     ws: WebSocket;
+    leagueId: string;
+    ownerNodeId: string;
+    encoding: ClientEncoding; // The owner sends JSON, which this node encodes for the client
+}
+
+// A client on another node attached to a room owned by this node
+interface RemoteClient {
+    socket: RemoteClientSocket;
     room: Room;
+    clientId: string; // ID in the room; differs from the relaying node's ID for resumed sessions
+    protocol: ClientProtocol;
 }
 
 interface ProxyMessage {
-    type: 'yahoo_message' | 'room_joined' | 'yahoo_connected' | 'yahoo_disconnected' | 'yahoo_error' | 'yahoo_max_reconnect_reached';
+    type: 'yahoo_message' | 'room_joined' | 'yahoo_connected' | 'yahoo_disconnected' | 'yahoo_error' | 'yahoo_max_reconnect_reached' | 'yahoo_reconnecting' | 'snapshot_start' | 'snapshot_end' | 'draft_event' | 'resume_failed' | 'system_notice' | 'relay_paused' | 'relay_resumed' | 'send_rejected' | 'yahoo_ack' | 'autopick' | 'autopick_updated' | 'server_restarting' | 'resync_required' | 'limit_exceeded' | 'error' | 'upstream_status';
     data?: string;
+    event?: DraftEvent;
+    frameCount?: number;
     message?: string;
     error?: string;
-    code?: number;
+    code?: number | ClientErrorCode; // Close code, or the error code of an error message
+    field?: string;
     reason?: string;
     roomId?: string;
     yahooConnected?: boolean;
     clientsCount?: number;
     draftPosition?: number;
+    attempt?: number;
+    maxAttempts?: number;
+    delayMs?: number;
+    seq?: number;
+    resumeToken?: string;
+    resumed?: boolean;
+    oldestSeq?: number;
+    requestId?: string;
+    status?: AckStatus;
+    outcome?: AutopickOutcome;
+    overallPick?: number;
+    playerId?: string;
+    secondsRemaining?: number;
+    enabled?: boolean;
+    queueLength?: number;
+    fromSeq?: number;
+    droppedCount?: number;
+    coalescedCount?: number;
+    limit?: LimitKind;
+    retryAfterMs?: number;
+    latencyMs?: number | null;
+    lastReceivedAt?: number | null;
+    stale?: boolean;
+}
+
+// Why a client frame was not sent to Yahoo
+type SendRejectionReason = 'read_only' | 'owner_only' | 'wrong_seat' | 'malformed_frame' | 'relay_paused' | 'not_connected' | 'queue_full' | 'expired' | 'rate_limited';
+
+// Which limit a client ran into, reported in limit_exceeded before it is closed
+type LimitKind = 'connections_per_ip' | 'connections_per_league' | 'rooms' | 'frame_rate';
+
+// Outcome of a client frame sent with a requestId
+type AckStatus = 'sent' | 'queued' | 'rejected';
+
+// What the proxy did when a disconnected manager's clock ran low
+type AutopickOutcome = 'submitted' | 'skipped';
+
+interface ClientInfo {
+    clientId: string;
+    draftPosition: number;
+    draftEvents: boolean; // Opted in to decoded draft_event messages
+    role: ClientRole;
+    resumeToken: string;
+    seatKey: string | null; // null for spectators without a seat
+    joinedSeq: number; // Room sequence number when the client joined or resumed
+    backlog: SlowClientBacklog | null; // Set while the client's send buffer is over the soft limit
+    rateLimiter: FrameRateLimiter | null; // null when frame rate limiting is off
+    encoding: ClientEncoding;
+}
+
+interface ResumeSession {
+    clientId: string;
+    draftPosition: number;
+    draftEvents: boolean;
+    role: ClientRole;
+    seatKey: string | null;
+    platformUserId: string; // Seat identity, to reopen the seat if it was released meanwhile
+    auth?: string;
+    disconnectedAt: number | null; // null while the client is connected
 }
 
-interface ClientMessage {
-    type: 'yahoo_message' | 'yahoo_reconnect';
-    data: string | ReconnectData;
+// Who a resuming client's join claims say it is; a session only resumes for the same identity
+type ResumeIdentity = Pick<ResumeSession, 'platformUserId' | 'draftPosition' | 'role'>;
+
+// A broadcast kept for resuming clients; Yahoo frames are kept raw so they can be re-encoded per client
+interface RetainedMessage {
+    seq: number;
+    message?: ProxyMessage;
+    frame?: string;
+    seatKey?: string; // Set when only one seat's clients received it
+}
+
+// One upstream Yahoo connection and the identity it joins with. Shared rooms have a single seat;
+// per-seat rooms open one for each draft position or auth credential among their clients.
+interface Seat {
+    key: string;
+    draftPosition: number;
+    platformUserId: string;
+    auth?: string;
+    yahooWs: WebSocket | null;
+    isConnectingToYahoo: boolean;
+    hasJoined: boolean; // Track if we've sent the join message
+    isIntentionalDisconnect: boolean; // Track if disconnect is intentional
+    isReconnectingForNewClient: boolean; // Track if reconnecting due to new client
+    lastHeartbeat: number;
+    lastReceivedAt: number | null; // When Yahoo last sent a frame or pong on the current connection
+    latencyMs: number | null; // Round trip of the latest ping
+    pingSentAt: number | null; // Set while a ping is awaiting its pong
+    stale: boolean; // Yahoo went silent and the connection is being recycled
+    reportedStatus: { stale: boolean; latencyBucket: number } | null; // As of the last upstream_status broadcast
+    reconnectAttempts: number;
+    reconnectTimeout: NodeJS.Timeout | null; // Pending automatic reconnection
+    heartbeatInterval: NodeJS.Timeout | null;
+    livenessInterval: NodeJS.Timeout | null;
+    releaseTimeout: NodeJS.Timeout | null; // Delay closing an emptied seat for rapid reconnections
+    snapshotFrames: string[]; // Yahoo frames received since the current connection opened
+    snapshotBytes: number;
+    snapshotStale: boolean; // Stale until a fresh connection starts collecting frames
+    outboundQueue: QueuedFrame[]; // Client frames waiting for the connection to open and join
+    outboundQueueTimer: NodeJS.Timeout | null; // Expires the oldest queued frame
+    restored: boolean; // Restored from the state file without auth; takes the identity of its first client
+}
+
+interface QueuedFrame {
+    clientWs: ClientSocket;
+    frame: string;
+    requestId?: string;
+    queuedAt: number;
+}
+
+// A league-wide Yahoo frame, which every seat in a per-seat room receives
+interface SharedFrame {
+    deliveries: Map<string, number>; // Map<seatKey, times the seat's connection delivered it>
+    broadcasts: number; // Times it was broadcast; a seat delivering it more often than this is a repeat
+    seq: number; // Sequence number of the latest broadcast
 }
 
-interface ReconnectData {
+// A manager's ranked player queue, picked from on their behalf when they leave while on the clock
+interface AutopickSettings {
+    playerIds: string[]; // Most wanted first
+    enabled: boolean;
+    lastOverallPick: number | null; // Pick already handled, so each pick is submitted at most once
+}
+
+// A read-only consumer of a room's room-wide messages, such as an SSE stream. Listeners are not
+// room clients, so they never open or hold open a Yahoo connection.
+interface RoomListener {
+    send: (message: ProxyMessage) => void;
+    close: () => void;
+}
+
+// Identity and upstream target of a connecting client, from a signed token or query params
+interface JoinRequest {
     leagueId: string;
     draftPosition: number;
+    yahooWebSocketUrl: string;
+    platformUserId: string;
+    auth?: string;
+    role: ClientRole;
 }
 
 interface Config {
     port: number;
     shutdownTimeoutMs: number;
     env: string;
-    maxReconnectAttempts?: number;
-    heartbeatInterval?: number;
-    connectionTimeout?: number;
+    room?: Partial<RoomSettings>;
+    leagues?: Record<string, Partial<RoomSettings>>; // Keyed by league ID
+    joinTokenSecret?: string;
+    allowUnsignedJoin?: boolean;
+    upstreamPolicy?: UpstreamPolicy;
+    adminApiKeys?: AdminApiKey[];
+    recordingDir?: string;
+    webhookMaxAttempts?: number;
+    webhookRetryBaseDelayMs?: number;
+    webhookRetryMaxDelayMs?: number;
+    webhookTimeoutMs?: number;
+    webhookDeadLetterPath?: string;
+    webhookStorePath?: string;
+    draftStoreDir?: string;
+    stateFile?: string;
+    restoredRoomTtlMs?: number;
+    drainTimeoutMs?: number;
+    drainReconnectDelayMs?: number;
+    drainPollIntervalMs?: number;
+    eventStreamKeepaliveMs?: number;
+    roomRegistry?: RoomRegistryKind;
+    redisUrl?: string;
+    nodeId?: string;
+    registryLeaseMs?: number;
+    trustProxy?: boolean;
+    maxConnectionsPerIp?: number;
+    maxRooms?: number;
+    perMessageDeflate?: boolean;
+    perMessageDeflateThresholdBytes?: number;
 }
 
 interface Logger {
@@ -50,65 +245,195 @@ interface Logger {
     debug: (message: any, ...args: any[]) => void;
 }
 
-// Store active rooms and connections
-const rooms = new Map<string, Room>(); // Map<roomId, Room>
-const clientConnections = new Map<string, ClientConnection>(); // Map<clientId, ClientConnection>
+// Upper bounds of the latency buckets in upstream_status; a latency that stays in its bucket
+// is not broadcast
+const UPSTREAM_LATENCY_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500];
+
+// -1 until a ping is answered, and the number of bounds for latencies above the last one
+function upstreamLatencyBucket(latencyMs: number | null): number {
+    if (latencyMs === null) {
+        return -1;
+    }
+    const bucket = UPSTREAM_LATENCY_BUCKETS_MS.findIndex(bound => latencyMs <= bound);
+    return bucket === -1 ? UPSTREAM_LATENCY_BUCKETS_MS.length : bucket;
+}
+
+// Application close codes sent to clients
+const CloseCode = {
+    MissingJoinToken: 4001,
+    InvalidJoinToken: 4002,
+    ExpiredJoinToken: 4003,
+    UpstreamUrlMismatch: 4004,
+    UpstreamNotAllowed: 4005,
+    KickedByOperator: 4006,
+    ServerDraining: 4007,
+    RoomMoved: 4008,
+    SlowConsumer: 4009,
+    TooManyConnections: 4010,
+    RoomLimitReached: 4011,
+    RateLimited: 4012,
+    UnsupportedProtocol: 4013,
+    UpstreamUnavailable: 4014
+} as const;
 
 class Room {
     public readonly id: string;
     public readonly leagueId: string;
-    public readonly draftPosition: number; // Primary draft position for Yahoo connection
     public readonly yahooWebSocketUrl: string;
-    public readonly platformUserId: string; // Store platform user ID
-    public readonly auth?: string; // Optional auth field for join message
-    public yahooWs: WebSocket | null = null;
-    public clients: Map<WebSocket, { clientId: string; draftPosition: number }> = new Map(); // Map of client to their info
-    public isConnectingToYahoo: boolean = false;
-    public lastHeartbeat: number = Date.now();
-    public reconnectAttempts: number = 0;
-    public readonly maxReconnectAttempts: number;
-    private heartbeatInterval: NodeJS.Timeout | null = null;
+    public readonly upstreamMode: UpstreamMode;
+    public clients: Map<ClientSocket, ClientInfo> = new Map(); // Map of client to their info
+    public seats: Map<string, Seat> = new Map(); // Map<seatKey, Seat>; a shared room has at most one
     private logger: Logger;
-    private connectionTimeout: number;
-    private isIntentionalDisconnect: boolean = false; // Track if disconnect is intentional
-    private hasJoined: boolean = false; // Track if we've sent the join message
+    private settings: RoomSettings;
     private cleanupTimeout: NodeJS.Timeout | null = null; // Delay room cleanup for rapid reconnections
-    private isReconnectingForNewClient: boolean = false; // Track if reconnecting due to new client
+    private seq: number = 0; // Sequence number of the last broadcast message
+    private retainedMessages: RetainedMessage[] = [];
+    private resumeSessions: Map<string, ResumeSession> = new Map(); // Map<resumeToken, ResumeSession>
+    private readonly upstreamLookup?: LookupFunction;
+    private upstreamRefused: boolean = false; // Upstream failed the URL policy; never reconnect
+    private relayPaused: boolean = false;
+    private pausedFrames: { seat: Seat; frame: string }[] = []; // Yahoo frames held back while relaying is paused
+    private readonly recorder?: SessionRecorder;
+    private sharedFrames: Map<string, SharedFrame> = new Map(); // Map<frame, SharedFrame>, per-seat rooms only
+    private autopicks: Map<number, AutopickSettings> = new Map(); // Map<draftPosition, AutopickSettings>
+    private board: DraftBoard = new DraftBoard();
+    private managers: Map<number, string> = new Map(); // Map<draftPosition, platformUserId> of the latest manager to join
+    private picksInFlight: Map<string, number> = new Map(); // Map<playerId, sentAt> of picks Yahoo has not echoed yet
+    private readonly draftStore?: DraftStore;
+    private listeners: Set<RoomListener> = new Set();
+    private readonly webhooks?: WebhookDispatcher;
+    private draftCompleted: boolean = false;
+    private readonly onRemoved?: (room: Room) => void; // Called when the room cleans itself up after emptying
     
     constructor(
         leagueId: string, 
-        draftPosition: number, 
         yahooWebSocketUrl: string, 
-        platformUserId: string,
         logger: Logger,
-        maxReconnectAttempts: number = 5,
-        connectionTimeout: number = 10000,
-        auth?: string
+        settings: RoomSettings,
+        upstreamLookup?: LookupFunction,
+        recorder?: SessionRecorder,
+        webhooks?: WebhookDispatcher,
+        draftStore?: DraftStore,
+        onRemoved?: (room: Room) => void
     ) {
         this.id = leagueId; // Room ID is just the league ID
         this.leagueId = leagueId;
-        this.draftPosition = draftPosition;
         this.yahooWebSocketUrl = yahooWebSocketUrl;
-        this.platformUserId = platformUserId;
-        this.auth = auth;
         this.logger = logger;
-        this.maxReconnectAttempts = maxReconnectAttempts;
-        this.connectionTimeout = connectionTimeout;
-        
-        this.logger.info(`📝 Created room: ${this.id} for Yahoo URL: ${yahooWebSocketUrl}`);
+        this.settings = settings;
+        this.upstreamMode = settings.upstreamMode;
+        this.upstreamLookup = upstreamLookup;
+        this.recorder = recorder;
+        this.webhooks = webhooks;
+        this.draftStore = draftStore;
+        this.onRemoved = onRemoved;
+
+        this.logger.info(`📝 Created room: ${this.id} for Yahoo URL: ${yahooWebSocketUrl} (upstream mode: ${this.upstreamMode})`);
+        this.webhooks?.emit(this.leagueId, 'room.created', { upstreamMode: this.upstreamMode });
+    }
+
+    // Settings reloaded while the room is open. The upstream mode stays the one the seats were
+    // opened for; timers already running and rate limiters of connected clients keep their old
+    // settings until they are next started.
+    public updateSettings(settings: RoomSettings): void {
+        this.settings = { ...settings, upstreamMode: this.upstreamMode };
+    }
+
+    private seatKeyFor(draftPosition: number, auth?: string): string {
+        switch (this.upstreamMode) {
+            case UpstreamMode.PerPosition:
+                return `position:${draftPosition}`;
+            case UpstreamMode.PerAuth:
+                // Hashed so credentials never show up in status output or logs
+                return auth ? `auth:${createHash('sha256').update(auth).digest('hex').substring(0, 12)}` : `position:${draftPosition}`;
+            default:
+                return 'shared';
+        }
+    }
+
+    private getOrCreateSeat(draftPosition: number, platformUserId: string, auth?: string): Seat {
+        const key = this.seatKeyFor(draftPosition, auth);
+        let seat = this.seats.get(key);
+        if (!seat) {
+            seat = this.createSeat(key, draftPosition, platformUserId, auth);
+        } else if (seat.restored) {
+            seat.draftPosition = draftPosition;
+            seat.platformUserId = platformUserId;
+            seat.auth = auth;
+            seat.restored = false;
+        }
+        return seat;
+    }
+
+    private createSeat(key: string, draftPosition: number, platformUserId: string, auth?: string): Seat {
+        const seat: Seat = {
+            key,
+            draftPosition,
+            platformUserId,
+            auth,
+            yahooWs: null,
+            isConnectingToYahoo: false,
+            hasJoined: false,
+            isIntentionalDisconnect: false,
+            isReconnectingForNewClient: false,
+            lastHeartbeat: Date.now(),
+            lastReceivedAt: null,
+            latencyMs: null,
+            pingSentAt: null,
+            stale: false,
+            reportedStatus: null,
+            reconnectAttempts: 0,
+            reconnectTimeout: null,
+            heartbeatInterval: null,
+            livenessInterval: null,
+            releaseTimeout: null,
+            snapshotFrames: [],
+            snapshotBytes: 0,
+            snapshotStale: true,
+            outboundQueue: [],
+            outboundQueueTimer: null,
+            restored: false
+        };
+        this.seats.set(key, seat);
+        return seat;
+    }
+
+    // Log label for a seat; shared rooms are labelled by room alone
+    private describe(seat: Seat): string {
+        return this.upstreamMode === UpstreamMode.Shared ? `room ${this.id}` : `room ${this.id} seat ${seat.key}`;
+    }
+
+    private seatClientCount(seat: Seat): number {
+        let count = 0;
+        this.clients.forEach(clientInfo => {
+            if (clientInfo.seatKey === seat.key) {
+                count++;
+            }
+        });
+        return count;
+    }
+
+    private isSeatOpen(seat: Seat): boolean {
+        return !!seat.yahooWs && seat.yahooWs.readyState === WebSocket.OPEN;
+    }
+
+    public openUpstreamCount(): number {
+        return Array.from(this.seats.values()).filter(seat => this.isSeatOpen(seat)).length;
     }
 
-    async connectToYahoo(): Promise<void> {
-        if (this.isConnectingToYahoo || (this.yahooWs && this.yahooWs.readyState === WebSocket.OPEN)) {
+    async connectToYahoo(seat: Seat): Promise<void> {
+        if (seat.isConnectingToYahoo || this.isSeatOpen(seat)) {
             return;
         }
 
-        this.isConnectingToYahoo = true;
-        this.logger.info(`🔗 Connecting to Yahoo WebSocket for room ${this.id}...`);
+        this.cancelReconnect(seat);
+        seat.isConnectingToYahoo = true;
+        seat.isIntentionalDisconnect = false;
+        this.logger.info(`🔗 Connecting to Yahoo WebSocket for ${this.describe(seat)}...`);
 
         try {
             // Create connection to Yahoo WITHOUT Origin header
-            this.yahooWs = new WebSocket(this.yahooWebSocketUrl, {
+            const yahooWs = new WebSocket(this.yahooWebSocketUrl, {
                 headers: {
                     'User-Agent': 'YahooFantasyProxy/1.0',
                     'Accept-Encoding': 'gzip, deflate, br',
@@ -117,108 +442,198 @@ class Room {
                     'Pragma': 'no-cache',
                     // Explicitly NO Origin header
                 },
-                timeout: this.connectionTimeout
+                timeout: this.settings.connectionTimeout,
+                lookup: this.upstreamLookup
             });
+            seat.yahooWs = yahooWs;
+            const endConnectTimer = metrics.upstreamConnectSeconds.startTimer();
+            const connectStartedAt = Date.now();
+            
+            // Ends on open, or on error/close if the connection never opened
+            const connectSpan = tracer.startSpan('upstream.connect', { attributes: leagueAttributes(this.leagueId, seat.draftPosition) });
+            let connectSpanEnded = false;
+            const endConnectSpan = (error?: unknown) => {
+                if (connectSpanEnded) {
+                    return;
+                }
+                connectSpanEnded = true;
+                if (error) {
+                    recordSpanError(connectSpan, error);
+                }
+                connectSpan.end();
+            };
 
-            this.yahooWs.on('open', () => {
-                this.logger.info(`✅ Connected to Yahoo WebSocket for room ${this.id}`);
-                this.isConnectingToYahoo = false;
-                this.reconnectAttempts = 0;
-                this.hasJoined = false; // Reset join status on new connection
+            yahooWs.on('open', () => {
+                this.logger.info(`✅ Connected to Yahoo WebSocket for ${this.describe(seat)}`);
+                endConnectTimer();
+                otelMetrics.upstreamConnectDuration.record(Date.now() - connectStartedAt, leagueAttributes(this.leagueId));
+                metrics.upstreamConnects.inc();
+                seat.isConnectingToYahoo = false;
+                seat.reconnectAttempts = 0;
+                seat.hasJoined = false; // Reset join status on new connection
+                seat.lastReceivedAt = Date.now();
+                seat.latencyMs = null;
+                seat.pingSentAt = null;
+                seat.stale = false;
+                this.resetSnapshot(seat);
+                // Yahoo re-sends league history on join; count it as this seat's first delivery
+                this.sharedFrames.forEach(shared => shared.deliveries.delete(seat.key));
                 
                 // Send join message to Yahoo immediately upon connection
-                this.sendJoinMessageToYahoo();
-                this.startHeartbeat();
+                context.with(trace.setSpan(context.active(), connectSpan), () => {
+                    withSpan('upstream.join', leagueAttributes(this.leagueId, seat.draftPosition), () => this.sendJoinMessageToYahoo(seat));
+                });
+                endConnectSpan();
+                this.flushOutboundQueue(seat);
+                this.startHeartbeat(seat);
+                this.startLivenessCheck(seat, yahooWs);
                 
                 // Only notify clients if this is NOT a reconnection due to new client joining
-                if (!this.isReconnectingForNewClient) {
+                if (!seat.isReconnectingForNewClient) {
                     this.broadcastToClients({
                         type: 'yahoo_connected',
                         message: 'Connected to Yahoo WebSocket'
-                    });
+                    }, seat);
                 }
                 
                 // Reset the flag after connection
-                this.isReconnectingForNewClient = false;
+                seat.isReconnectingForNewClient = false;
             });
 
-            this.yahooWs.on('message', (data: WebSocket.RawData) => {
+            yahooWs.on('message', (data: WebSocket.RawData) => {
+                seat.lastReceivedAt = Date.now();
                 const message = data.toString();
-                this.logger.debug(`📨 Yahoo message for room ${this.id}:`, message.substring(0, 100) + '...');
+                this.trackUpstreamFrame(seat, 'upstream_in', message);
+                this.logger.debug(`📨 Yahoo message for ${this.describe(seat)}:`, message.substring(0, 100) + '...');
+                this.recordSnapshotFrame(seat, message);
+                this.observeDraftFrame(message);
                 
-                // Relay message to all clients in this room
-                this.broadcastToClients({
-                    type: 'yahoo_message',
-                    data: message
-                });
+                if (this.relayPaused) {
+                    this.pausedFrames.push({ seat, frame: message });
+                    return;
+                }
+                
+                // Relay message to the clients in this room
+                this.relayYahooFrame(seat, message);
             });
 
-            this.yahooWs.on('close', (code: number, reason: Buffer) => {
-                this.logger.info(`🔌 Yahoo WebSocket closed for room ${this.id}: ${code} - ${reason.toString()}`);
-                this.isConnectingToYahoo = false;
-                this.stopHeartbeat();
+            yahooWs.on('pong', () => {
+                if (seat.yahooWs !== yahooWs) {
+                    return;
+                }
+                seat.lastReceivedAt = Date.now();
+                if (seat.pingSentAt !== null) {
+                    this.recordLatency(seat, seat.lastReceivedAt - seat.pingSentAt);
+                    seat.pingSentAt = null;
+                }
+            });
+
+            yahooWs.on('close', (code: number, reason: Buffer) => {
+                this.logger.info(`🔌 Yahoo WebSocket closed for ${this.describe(seat)}: ${code} - ${reason.toString()}`);
+                metrics.upstreamDisconnects.inc({ code: String(code) });
+                endConnectSpan(new Error(`Closed before opening: ${code}`));
+                // A socket we replaced or dropped on purpose may close after its successor opened;
+                // leave the successor's state alone
+                const isCurrentSocket = seat.yahooWs === yahooWs;
+                if (isCurrentSocket || !seat.yahooWs) {
+                    seat.isConnectingToYahoo = false;
+                    this.stopHeartbeat(seat);
+                    this.stopLivenessCheck(seat);
+                    this.invalidateSnapshot(seat, 'Yahoo connection closed');
+                }
                 
                 // Only notify clients if this is NOT a reconnection due to new client joining
-                if (!this.isReconnectingForNewClient) {
+                if (!seat.isReconnectingForNewClient) {
                     this.broadcastToClients({
                         type: 'yahoo_disconnected',
                         code: code,
                         reason: reason.toString()
-                    });
+                    }, seat);
+                }
+                
+                if (isCurrentSocket && !seat.isIntentionalDisconnect && !seat.isReconnectingForNewClient) {
+                    this.notifyUpstreamClosed(seat, code, reason.toString());
                 }
 
-                // Do NOT automatically reconnect - wait for client to initiate reconnection
-                this.logger.info(`⏳ Yahoo disconnected for room ${this.id} - waiting for client to initiate reconnection`);
+                // Yahoo has no end-of-draft frame but closes with 1000 once the last pick is made.
+                // It also closes with 1000 when it rotates servers mid-draft, with a pick on the
+                // clock, so only a normal close with nothing left to pick ends the draft.
+                if (isCurrentSocket && !seat.isIntentionalDisconnect && code === 1000 && this.board.pickCount > 0 && !this.board.hasPickOnClock) {
+                    this.completeDraft();
+                }
+
+                // Every other close the proxy did not start is reconnected
+                if (isCurrentSocket && !seat.isIntentionalDisconnect && !this.upstreamRefused && !this.draftCompleted) {
+                    this.scheduleReconnect(seat);
+                } else {
+                    this.logger.info(`⏳ Yahoo disconnected for ${this.describe(seat)} - not reconnecting automatically`);
+                    if (isCurrentSocket) {
+                        this.dropOutboundQueue(seat, 'Yahoo connection closed');
+                    }
+                }
             });
 
-            this.yahooWs.on('error', (error: Error) => {
-                this.logger.error(`❌ Yahoo WebSocket error for room ${this.id}:`, error);
-                this.isConnectingToYahoo = false;
+            yahooWs.on('error', (error: Error) => {
+                seat.isConnectingToYahoo = false;
+                metrics.upstreamErrors.inc();
+                endConnectSpan(error);
+                
+                if (error instanceof UpstreamRefusedError) {
+                    this.refuseUpstream(error);
+                    return;
+                }
+                
+                this.logger.error(`❌ Yahoo WebSocket error for ${this.describe(seat)}:`, error);
                 
                 this.broadcastToClients({
                     type: 'yahoo_error',
                     error: error.message
-                });
+                }, seat);
             });
 
         } catch (error) {
-            this.logger.error(`❌ Failed to connect to Yahoo for room ${this.id}:`, error);
-            this.isConnectingToYahoo = false;
+            this.logger.error(`❌ Failed to connect to Yahoo for ${this.describe(seat)}:`, error);
+            seat.isConnectingToYahoo = false;
             throw error;
         }
     }
 
-    public sendJoinMessageToYahoo(): void {
-        if (this.yahooWs && this.yahooWs.readyState === WebSocket.OPEN && !this.hasJoined) {
-            // Yahoo join message format: 8|{LEAGUE_ID}|{DRAFT_POSITION}|{USER_AGENT}|{AUTH}
-            // Build from the room's stored parameters
-            const userAgent = encodeURIComponent(`YahooFantasyProxy/1.0 (${this.platformUserId})`);
-            let joinMessage = `8|${this.leagueId}|${this.draftPosition}|${userAgent}|`;
-            
-            // Add auth field if present
-            if (this.auth) {
-                joinMessage += this.auth;
-            }
+    public sendJoinMessageToYahoo(seat: Seat): void {
+        if (seat.yahooWs && this.isSeatOpen(seat) && !seat.hasJoined) {
+            // Build from the seat's stored parameters
+            const joinMessage = encodeJoinFrame({
+                leagueId: this.leagueId,
+                draftPosition: seat.draftPosition,
+                userAgent: `YahooFantasyProxy/1.0 (${seat.platformUserId})`,
+                auth: seat.auth
+            });
             
-            this.yahooWs.send(joinMessage);
-            this.hasJoined = true;
+            seat.yahooWs.send(joinMessage);
+            seat.hasJoined = true;
+            this.trackUpstreamFrame(seat, 'upstream_out', joinMessage);
+            metrics.joinMessagesSent.inc();
             
-            this.logger.info(`📤 Sent Yahoo join message for room ${this.id}:`, {
+            // The join frame carries the Yahoo credentials, so only whether there were any is logged
+            this.logger.info(`📤 Sent Yahoo join message for ${this.describe(seat)}:`, {
                 leagueId: this.leagueId,
-                draftPosition: this.draftPosition,
-                platformUserId: this.platformUserId,
-                auth: this.auth || 'none',
-                message: joinMessage
+                draftPosition: seat.draftPosition,
+                platformUserId: seat.platformUserId,
+                hasAuth: !!seat.auth
             });
-        } else if (this.hasJoined) {
-            this.logger.debug(`ℹ️ Join message already sent for room ${this.id}`);
+        } else if (seat.hasJoined) {
+            this.logger.debug(`ℹ️ Join message already sent for ${this.describe(seat)}`);
         } else {
-            this.logger.warn(`⚠️ Cannot send join message to Yahoo - not connected in room ${this.id}`);
+            this.logger.warn(`⚠️ Cannot send join message to Yahoo - not connected in ${this.describe(seat)}`);
         }
     }
 
-    // New method to handle client-initiated reconnection
-    public async handleClientReconnectRequest(reconnectData: ReconnectData): Promise<void> {
+    // New method to handle client-initiated reconnection of the client's seat
+    public async handleClientReconnectRequest(clientWs: ClientSocket, reconnectData: ReconnectData): Promise<void> {
+        otelMetrics.clientReconnectRequests.add(1, leagueAttributes(this.leagueId));
+        return withSpan('room.client_reconnect', leagueAttributes(this.leagueId, reconnectData.draftPosition), () => this.reconnectForClient(clientWs, reconnectData));
+    }
+
+    private async reconnectForClient(clientWs: ClientSocket, reconnectData: ReconnectData): Promise<void> {
         this.logger.info(`🔄 Client-initiated reconnection request for room ${this.id}:`, reconnectData);
         
         // Validate the reconnection data
@@ -227,50 +642,240 @@ class Room {
             throw new Error(`League ID mismatch: expected ${this.leagueId}, got ${reconnectData.leagueId}`);
         }
         
-        // Update draft position if it has changed
-        if (reconnectData.draftPosition !== this.draftPosition) {
-            this.logger.info(`📝 Updating draft position for room ${this.id}: ${this.draftPosition} -> ${reconnectData.draftPosition}`);
-            (this as any).draftPosition = reconnectData.draftPosition; // Cast to bypass readonly
+        const clientInfo = this.clients.get(clientWs);
+        if (clientInfo && clientInfo.role !== 'owner') {
+            this.rejectClientFrame(clientWs, clientInfo.role === 'spectator' ? 'read_only' : 'owner_only', 'Only the seat owner can reconnect it to Yahoo');
+            return;
         }
         
-        // Close existing connection if any
-        if (this.yahooWs) {
-            this.isIntentionalDisconnect = true;
-            this.yahooWs.close(1000, 'Client-initiated reconnection');
-            this.yahooWs = null;
+        const seat = this.seatOf(clientInfo);
+        if (!seat) {
+            throw new Error(`Client is not seated in room ${this.id}`);
+        }
+
+        // Update draft position if it has changed
+        if (reconnectData.draftPosition !== seat.draftPosition) {
+            if (this.upstreamMode === UpstreamMode.PerPosition) {
+                // The position is the seat; moving would hijack another seat's connection
+                throw new Error(`Cannot change draft position of ${this.describe(seat)}`);
+            }
+            this.logger.info(`📝 Updating draft position for ${this.describe(seat)}: ${seat.draftPosition} -> ${reconnectData.draftPosition}`);
+            seat.draftPosition = reconnectData.draftPosition;
         }
-        
-        // Reset connection state
-        this.isIntentionalDisconnect = false;
-        this.hasJoined = false;
         
         try {
-            // Attempt to reconnect using stored room data
-            await this.connectToYahoo();
-            this.logger.info(`✅ Client-initiated reconnection successful for room ${this.id}`);
+            await this.reconnectNow(seat, 'Client-initiated reconnection');
+            this.logger.info(`✅ Client-initiated reconnection successful for ${this.describe(seat)}`);
         } catch (error) {
-            this.logger.error(`❌ Client-initiated reconnection failed for room ${this.id}:`, error);
+            this.logger.error(`❌ Client-initiated reconnection failed for ${this.describe(seat)}:`, error);
             throw error;
         }
     }
 
-    private startHeartbeat(): void {
-        this.heartbeatInterval = setInterval(() => {
-            if (this.yahooWs && this.yahooWs.readyState === WebSocket.OPEN) {
-                this.yahooWs.send('c'); // Yahoo heartbeat
-                this.lastHeartbeat = Date.now();
+    // Operator-initiated reconnection of every seat with its current parameters
+    public async forceReconnect(): Promise<void> {
+        await Promise.all(Array.from(this.seats.values()).map(seat => this.reconnectNow(seat, 'Operator-initiated reconnection')));
+    }
+
+    private async reconnectNow(seat: Seat, reason: string): Promise<void> {
+        // Close existing connection if any
+        if (seat.yahooWs) {
+            seat.isIntentionalDisconnect = true;
+            seat.yahooWs.close(1000, reason);
+            seat.yahooWs = null;
+        }
+        
+        // Reset connection state; a manual reconnect starts a fresh backoff sequence
+        seat.isIntentionalDisconnect = false;
+        seat.isConnectingToYahoo = false;
+        seat.hasJoined = false;
+        seat.reconnectAttempts = 0;
+        
+        // Attempt to reconnect using stored seat data
+        await this.connectToYahoo(seat);
+    }
+
+    // Connects the seat for a client that joined or resumed. A connection that cannot even be
+    // started, such as one to a URL the WebSocket client rejects, fails the same way on every
+    // retry, so the seat's clients are closed instead; the seat is released once they are gone.
+    private connectForClient(seat: Seat): void {
+        this.connectToYahoo(seat).catch(() => {
+            this.clients.forEach((clientInfo, clientWs) => {
+                if (clientInfo.seatKey === seat.key) {
+                    clientWs.close(CloseCode.UpstreamUnavailable, 'Cannot connect to Yahoo');
+                }
+            });
+        });
+    }
+
+    // The upstream resolved to an address the URL policy forbids; drop every client in the room
+    private refuseUpstream(error: UpstreamRefusedError): void {
+        this.logger.warn(`🚫 Refused upstream connection for room ${this.id}: ${error.message}`);
+        this.upstreamRefused = true;
+        this.seats.forEach(seat => this.dropOutboundQueue(seat, 'Upstream URL not allowed'));
+        metrics.clientRejections.inc({ reason: 'upstream_not_allowed' }, this.clients.size);
+        this.clients.forEach((clientInfo, clientWs) => {
+            clientWs.close(CloseCode.UpstreamNotAllowed, 'Upstream URL not allowed');
+        });
+    }
+
+    private scheduleReconnect(seat: Seat): void {
+        if (this.seatClientCount(seat) === 0 && !this.seatHasArmedAutopick(seat)) {
+            this.logger.info(`⏳ Yahoo disconnected for ${this.describe(seat)} with no clients - not reconnecting`);
+            this.dropOutboundQueue(seat, 'Yahoo connection closed');
+            return;
+        }
+        
+        if (seat.reconnectAttempts >= this.settings.maxReconnectAttempts) {
+            this.logger.warn(`🛑 Max Yahoo reconnection attempts (${this.settings.maxReconnectAttempts}) reached for ${this.describe(seat)}`);
+            this.broadcastToClients({
+                type: 'yahoo_max_reconnect_reached',
+                attempt: seat.reconnectAttempts,
+                maxAttempts: this.settings.maxReconnectAttempts,
+                message: 'Giving up on automatic Yahoo reconnection; send yahoo_reconnect to retry'
+            }, seat);
+            this.dropOutboundQueue(seat, 'Gave up reconnecting to Yahoo');
+            return;
+        }
+        
+        seat.reconnectAttempts++;
+        
+        // Exponential backoff with jitter: between 50% and 100% of the capped exponential delay
+        const exponentialDelay = Math.min(this.settings.reconnectMaxDelayMs, this.settings.reconnectBaseDelayMs * Math.pow(2, seat.reconnectAttempts - 1));
+        const delayMs = Math.round(exponentialDelay / 2 + Math.random() * exponentialDelay / 2);
+        
+        this.logger.info(`🔁 Scheduling Yahoo reconnection for ${this.describe(seat)} in ${delayMs}ms (attempt ${seat.reconnectAttempts}/${this.settings.maxReconnectAttempts})`);
+        this.broadcastToClients({
+            type: 'yahoo_reconnecting',
+            attempt: seat.reconnectAttempts,
+            maxAttempts: this.settings.maxReconnectAttempts,
+            delayMs
+        }, seat);
+        
+        this.cancelReconnect(seat);
+        seat.reconnectTimeout = setTimeout(() => {
+            seat.reconnectTimeout = null;
+            if (seat.isIntentionalDisconnect || (this.seatClientCount(seat) === 0 && !this.seatHasArmedAutopick(seat))) {
+                return;
+            }
+            this.connectToYahoo(seat).catch(error => {
+                this.logger.error(`❌ Automatic Yahoo reconnection failed for ${this.describe(seat)}:`, error);
+                this.scheduleReconnect(seat);
+            });
+        }, delayMs);
+    }
+
+    private cancelReconnect(seat: Seat): void {
+        if (seat.reconnectTimeout) {
+            clearTimeout(seat.reconnectTimeout);
+            seat.reconnectTimeout = null;
+        }
+    }
+
+    private startHeartbeat(seat: Seat): void {
+        seat.heartbeatInterval = setInterval(() => {
+            if (seat.yahooWs && this.isSeatOpen(seat)) {
+                const heartbeat = encodeHeartbeatFrame();
+                seat.yahooWs.send(heartbeat);
+                this.trackUpstreamFrame(seat, 'upstream_out', heartbeat);
+                seat.lastHeartbeat = Date.now();
+            }
+        }, this.settings.heartbeatInterval);
+    }
+
+    private stopHeartbeat(seat: Seat): void {
+        if (seat.heartbeatInterval) {
+            clearInterval(seat.heartbeatInterval);
+            seat.heartbeatInterval = null;
+        }
+    }
+
+    // Yahoo heartbeats only show that we can send. A half-open connection never closes on its
+    // own, so silence is the only sign of it: the seat is pinged, and a connection that has not
+    // received anything for the stale timeout is recycled.
+    private startLivenessCheck(seat: Seat, yahooWs: WebSocket): void {
+        this.stopLivenessCheck(seat);
+        if (this.settings.upstreamPingIntervalMs === 0) {
+            return;
+        }
+        seat.livenessInterval = setInterval(() => {
+            if (seat.yahooWs !== yahooWs || !this.isSeatOpen(seat)) {
+                return;
+            }
+            const silentMs = Date.now() - (seat.lastReceivedAt ?? Date.now());
+            if (this.settings.upstreamStaleTimeoutMs > 0 && silentMs >= this.settings.upstreamStaleTimeoutMs) {
+                this.recycleStaleConnection(seat, yahooWs, silentMs);
+                return;
+            }
+            // A ping still awaiting its pong is not replaced, so the latency it measures stays true
+            if (seat.pingSentAt === null) {
+                seat.pingSentAt = Date.now();
+                yahooWs.ping();
+            }
+        }, this.settings.upstreamPingIntervalMs);
+    }
+
+    private stopLivenessCheck(seat: Seat): void {
+        if (seat.livenessInterval) {
+            clearInterval(seat.livenessInterval);
+            seat.livenessInterval = null;
+        }
+    }
+
+    private recycleStaleConnection(seat: Seat, yahooWs: WebSocket, silentMs: number): void {
+        this.logger.warn(`💤 No frames from Yahoo for ${silentMs}ms in ${this.describe(seat)}; recycling the connection`);
+        metrics.upstreamStale.inc();
+        seat.stale = true;
+        this.stopLivenessCheck(seat);
+        this.sendUpstreamStatus(seat);
+        // A close handshake would wait for a peer that is not answering; the close handler
+        // reconnects as it does after any unexpected close
+        yahooWs.terminate();
+    }
+
+    private recordLatency(seat: Seat, latencyMs: number): void {
+        seat.latencyMs = latencyMs;
+        metrics.upstreamLatencySeconds.observe(latencyMs / 1000);
+        otelMetrics.upstreamLatency.record(latencyMs, leagueAttributes(this.leagueId));
+        this.sendUpstreamStatus(seat);
+    }
+
+    private upstreamStatus(seat: Seat): EncodedMessage {
+        return new EncodedMessage({
+            type: 'upstream_status',
+            latencyMs: seat.latencyMs,
+            lastReceivedAt: seat.lastReceivedAt,
+            stale: seat.stale
+        } as ProxyMessage);
+    }
+
+    // Broadcast only when the seat goes stale or recovers, or its latency moves to another
+    // bucket; clients ask for the current status with an upstream_status message. Sent live
+    // only: statuses are not sequenced or kept for resuming clients. Lagging clients skip them.
+    private sendUpstreamStatus(seat: Seat): void {
+        const latencyBucket = upstreamLatencyBucket(seat.latencyMs);
+        if (seat.reportedStatus && seat.reportedStatus.stale === seat.stale && seat.reportedStatus.latencyBucket === latencyBucket) {
+            return;
+        }
+        seat.reportedStatus = { stale: seat.stale, latencyBucket };
+        const status = this.upstreamStatus(seat);
+        this.clients.forEach((clientInfo, clientWs) => {
+            if (clientWs.readyState === WebSocket.OPEN && clientInfo.seatKey === seat.key && !clientInfo.backlog) {
+                this.sendToClient(clientWs, status, false);
             }
-        }, 30000); // Every 30 seconds
+        });
     }
 
-    private stopHeartbeat(): void {
-        if (this.heartbeatInterval) {
-            clearInterval(this.heartbeatInterval);
-            this.heartbeatInterval = null;
+    // Answers a client asking for its seat's upstream status. Clients without a seat have no
+    // Yahoo connection of their own and get none.
+    public requestUpstreamStatus(clientWs: ClientSocket): void {
+        const seat = this.seatOf(this.clients.get(clientWs));
+        if (seat && clientWs.readyState === WebSocket.OPEN) {
+            this.sendToClient(clientWs, this.upstreamStatus(seat), false);
         }
     }
 
-    public addClient(clientWs: WebSocket, clientId: string, clientDraftPosition: number): void {
+    public addClient(clientWs: ClientSocket, clientId: string, clientDraftPosition: number, draftEvents: boolean = false, platformUserId: string = 'unknown', auth?: string, role: ClientRole = 'owner', encoding: ClientEncoding = ClientEncoding.Json): void {
         // Cancel any pending cleanup if a new client is joining
         if (this.cleanupTimeout) {
             clearTimeout(this.cleanupTimeout);
@@ -278,217 +883,1510 @@ class Room {
             this.logger.info(`⏸️ Cancelled pending room cleanup for room ${this.id} - new client joining`);
         }
         
-        // If there are existing clients, force disconnect and reconnect to Yahoo
-        // This ensures we get a fresh initialization message from the server
-        if (this.clients.size > 0 || (this.yahooWs && this.yahooWs.readyState === WebSocket.OPEN)) {
-            this.logger.info(`🔄 New client joining room ${this.id} - forcing Yahoo reconnection for fresh initialization`);
+        const seat = this.seatForRole(role, clientDraftPosition, platformUserId, auth);
+        if (role !== 'spectator') {
+            this.managers.set(clientDraftPosition, platformUserId);
+        }
+        // Unseated spectators are caught up with the league-wide part of any seat's snapshot
+        const snapshotSeat = seat || this.leagueSnapshotSeat();
+        const canReplaySnapshot = !!snapshotSeat && this.canReplaySnapshot(snapshotSeat);
+        
+        // If the seat has existing clients but we have no usable snapshot, fall back to forcing a
+        // Yahoo reconnection so the server sends a fresh initialization message. A connection
+        // still being established will deliver that message to the new client anyway.
+        if (seat && !canReplaySnapshot && !seat.isConnectingToYahoo && (this.seatClientCount(seat) > 0 || this.isSeatOpen(seat))) {
+            this.logger.info(`🔄 New client joining ${this.describe(seat)} - snapshot unavailable, forcing Yahoo reconnection for fresh initialization`);
             
             // Set flag to suppress disconnect/reconnect broadcasts
-            this.isReconnectingForNewClient = true;
+            seat.isReconnectingForNewClient = true;
             
             // Close existing Yahoo connection
-            if (this.yahooWs) {
-                this.isIntentionalDisconnect = true;
-                this.yahooWs.close(1000, 'New client joined - forcing reconnection');
-                this.yahooWs = null;
+            if (seat.yahooWs) {
+                seat.isIntentionalDisconnect = true;
+                seat.yahooWs.close(1000, 'New client joined - forcing reconnection');
+                seat.yahooWs = null;
             }
             
             // Reset connection state
-            this.isIntentionalDisconnect = false;
-            this.hasJoined = false;
+            seat.isIntentionalDisconnect = false;
+            seat.hasJoined = false;
         }
         
-        this.clients.set(clientWs, { clientId, draftPosition: clientDraftPosition });
-        (clientWs as any).roomId = this.id;
-        (clientWs as any).clientId = clientId;
-        (clientWs as any).draftPosition = clientDraftPosition;
+        const resumeToken = uuidv4();
+        const seatKey = seat ? seat.key : null;
+        this.resumeSessions.set(resumeToken, { clientId, draftPosition: clientDraftPosition, draftEvents, role, seatKey, platformUserId, auth, disconnectedAt: null });
+        this.clients.set(clientWs, { clientId, draftPosition: clientDraftPosition, draftEvents, role, resumeToken, seatKey, joinedSeq: this.seq, backlog: null, rateLimiter: this.createRateLimiter(), encoding });
         
-        this.logger.info(`👤 Client ${clientId} (draft position ${clientDraftPosition}) joined room ${this.id}. Total clients: ${this.clients.size}`);
+        this.logger.info(`👤 Client ${clientId} (draft position ${clientDraftPosition}, ${role}) joined ${seat ? this.describe(seat) : `room ${this.id} unseated`}. Total clients: ${this.clients.size}`);
         
-        // Always connect/reconnect to Yahoo when a new client joins
-        this.connectToYahoo();
+        if (seat && !canReplaySnapshot) {
+            // Connect/reconnect to Yahoo; the new client receives the initialization message live
+            this.connectForClient(seat);
+        }
         
         // Send current status to the new client
-        clientWs.send(JSON.stringify({
+        this.sendToClient(clientWs, {
             type: 'room_joined',
             roomId: this.id,
-            yahooConnected: false, // Will be false since we're reconnecting
+            yahooConnected: canReplaySnapshot,
             clientsCount: this.clients.size,
-            draftPosition: clientDraftPosition
-        } as ProxyMessage));
-    }
-
-    public removeClient(clientWs: WebSocket): void {
-        const clientInfo = this.clients.get(clientWs);
-        this.clients.delete(clientWs);
+            draftPosition: clientDraftPosition,
+            resumeToken,
+            seq: this.seq
+        } as ProxyMessage);
         
-        if (clientInfo) {
-            this.logger.info(`👤 Client ${clientInfo.clientId} (draft position ${clientInfo.draftPosition}) left room ${this.id}. Remaining clients: ${this.clients.size}`);
+        if (snapshotSeat && canReplaySnapshot) {
+            this.replaySnapshot(clientWs, clientId, draftEvents, seat ? snapshotSeat.snapshotFrames : this.leagueWideFrames(snapshotSeat));
         }
-        
-        // If no clients remain, schedule cleanup with a delay to handle rapid reconnections
-        if (this.clients.size === 0) {
-            this.logger.info(`⏱️ Room ${this.id} is empty, scheduling cleanup in 2 seconds...`);
-            
-            // Cancel any existing cleanup timeout
-            if (this.cleanupTimeout) {
-                clearTimeout(this.cleanupTimeout);
-            }
-            
-            // Schedule cleanup after a delay to handle browser refreshes
-            this.cleanupTimeout = setTimeout(() => {
-                this.logger.info(`🧹 Cleaning up empty room ${this.id}`);
-                this.disconnectFromYahoo();
-                this.cleanup();
-                rooms.delete(this.id);
-            }, 2000); // 2 second delay
+    }
+
+    // Spectators in per-seat rooms get no seat: they must not open a Yahoo session as a manager
+    // or see a seat's private frames, so they only receive room-wide messages
+    private seatForRole(role: ClientRole, draftPosition: number, platformUserId: string, auth?: string): Seat | null {
+        if (role === 'spectator' && this.upstreamMode !== UpstreamMode.Shared) {
+            return null;
         }
+        const seat = this.getOrCreateSeat(draftPosition, platformUserId, auth);
+        this.cancelSeatRelease(seat);
+        return seat;
     }
 
-    private broadcastToClients(message: ProxyMessage): void {
-        const messageStr = JSON.stringify(message);
-        this.clients.forEach((clientInfo, clientWs) => {
-            if (clientWs.readyState === WebSocket.OPEN) {
-                clientWs.send(messageStr);
-            }
-        });
+    private seatOf(clientInfo: ClientInfo | undefined): Seat | undefined {
+        return clientInfo && clientInfo.seatKey !== null ? this.seats.get(clientInfo.seatKey) : undefined;
     }
 
-    public sendToYahoo(message: string): void {
-        if (this.yahooWs && this.yahooWs.readyState === WebSocket.OPEN) {
-            this.logger.debug(`📤 Sending to Yahoo from room ${this.id}:`, message);
-            this.yahooWs.send(message);
-        } else {
-            this.logger.warn(`⚠️ Cannot send to Yahoo - not connected in room ${this.id}`);
-        }
+    private canReplaySnapshot(seat: Seat): boolean {
+        return this.isSeatOpen(seat) && seat.hasJoined && !seat.snapshotStale;
     }
 
-    private disconnectFromYahoo(): void {
-        this.logger.info(`🔌 Intentionally disconnecting from Yahoo for room ${this.id}`);
-        this.isIntentionalDisconnect = true;
-        this.hasJoined = false; // Reset join status
-        
-        if (this.yahooWs) {
-            this.yahooWs.close(1000, 'No clients remaining in room');
-        }
+    private leagueSnapshotSeat(): Seat | undefined {
+        return Array.from(this.seats.values()).find(seat => this.canReplaySnapshot(seat));
     }
 
-    public cleanup(): void {
-        this.logger.info(`🧹 Cleaning up room ${this.id}`);
-        this.isIntentionalDisconnect = true;
-        this.hasJoined = false; // Reset join status
-        this.stopHeartbeat();
+    private leagueWideFrames(seat: Seat): string[] {
+        return seat.snapshotFrames.filter(frame => {
+            const event = decodeYahooFrame(frame);
+            return !!event && isLeagueWideEvent(event);
+        });
+    }
+
+    // Re-attaches a client using the resume token from its previous session and replays every
+    // broadcast after lastSeq. Returns the resumed client ID, or null (after telling the client why)
+    // when the session cannot be resumed and the caller should join it as a new client. The token
+    // alone grants nothing: the client's join claims must match the session's.
+    public resumeClient(clientWs: ClientSocket, resumeToken: string, lastSeq: number, identity: ResumeIdentity, encoding: ClientEncoding = ClientEncoding.Json): string | null {
+        const session = this.resumeSessions.get(resumeToken);
+        if (!session || this.isResumeSessionExpired(session)) {
+            this.resumeSessions.delete(resumeToken);
+            this.sendResumeFailed(clientWs, encoding, 'invalid_token', 'Resume token is unknown or expired');
+            return null;
+        }
+        
+        if (session.platformUserId !== identity.platformUserId || session.draftPosition !== identity.draftPosition || session.role !== identity.role) {
+            this.logger.warn(`🚫 Refused to resume client ${session.clientId} in room ${this.id}: join claims do not match the session`);
+            this.sendResumeFailed(clientWs, encoding, 'identity_mismatch', 'Resume token belongs to another user, draft position or role');
+            return null;
+        }
+        
+        const oldestSeq = this.retainedMessages.length > 0 ? this.retainedMessages[0].seq : this.seq + 1;
+        if (lastSeq > this.seq || lastSeq + 1 < oldestSeq) {
+            this.logger.info(`⚠️ Cannot resume client ${session.clientId} in room ${this.id}: lastSeq ${lastSeq} outside retained window ${oldestSeq}-${this.seq}`);
+            this.sendResumeFailed(clientWs, encoding, 'gap', 'Missed messages are no longer retained; full resync required', oldestSeq);
+            return null;
+        }
+        
+        // The previous socket may still look open if the drop was not noticed yet
+        this.clients.forEach((clientInfo, existingWs) => {
+            if (clientInfo.resumeToken === resumeToken) {
+                this.clients.delete(existingWs);
+                existingWs.close(1000, 'Session resumed on another connection');
+            }
+        });
         
-        // Clear any pending cleanup timeout
         if (this.cleanupTimeout) {
             clearTimeout(this.cleanupTimeout);
             this.cleanupTimeout = null;
+            this.logger.info(`⏸️ Cancelled pending room cleanup for room ${this.id} - client resuming`);
         }
         
-        if (this.yahooWs) {
-            this.yahooWs.close(1000, 'Room cleanup');
-            this.yahooWs = null;
+        // The seat may have been released while the client was away
+        const seat = this.seatForRole(session.role, session.draftPosition, session.platformUserId, session.auth);
+        const seatKey = seat ? seat.key : null;
+
+        session.disconnectedAt = null;
+        this.clients.set(clientWs, { clientId: session.clientId, draftPosition: session.draftPosition, draftEvents: session.draftEvents, role: session.role, resumeToken, seatKey, joinedSeq: this.seq, backlog: null, rateLimiter: this.createRateLimiter(), encoding });
+        
+        const missed = this.retainedMessages.filter(retained => retained.seq > lastSeq && (!retained.seatKey || retained.seatKey === seatKey));
+        this.logger.info(`♻️ Client ${session.clientId} resumed ${seat ? this.describe(seat) : `room ${this.id} unseated`} from seq ${lastSeq}, replaying ${missed.length} messages`);
+        
+        this.sendToClient(clientWs, {
+            type: 'room_joined',
+            roomId: this.id,
+            yahooConnected: seat ? this.isSeatOpen(seat) : this.openUpstreamCount() > 0,
+            clientsCount: this.clients.size,
+            draftPosition: session.draftPosition,
+            resumeToken,
+            resumed: true,
+            seq: lastSeq
+        } as ProxyMessage);
+        
+        for (const retained of missed) {
+            const message = retained.frame !== undefined
+                ? this.buildYahooFrameMessage(retained.frame, session.draftEvents ? decodeYahooFrame(retained.frame) : null, retained.seq)
+                : retained.message!;
+            this.sendToClient(clientWs, message);
+        }
+
+        if (seat && !seat.yahooWs) {
+            this.connectForClient(seat);
         }
         
-        this.clients.clear();
+        return session.clientId;
     }
 
-    public getStatus() {
-        const clientPositions = Array.from(this.clients.values()).map(client => client.draftPosition);
-        return {
-            roomId: this.id,
-            leagueId: this.leagueId,
-            draftPosition: this.draftPosition, // Primary position used for Yahoo connection
-            platformUserId: this.platformUserId,
-            clientsCount: this.clients.size,
-            clientDraftPositions: clientPositions, // All client positions in this room
-            yahooConnected: this.yahooWs && this.yahooWs.readyState === WebSocket.OPEN,
-            hasJoined: this.hasJoined, // Whether join message was sent
-            lastHeartbeat: this.lastHeartbeat,
-            reconnectAttempts: this.reconnectAttempts,
-            isIntentionalDisconnect: this.isIntentionalDisconnect
-        };
+    // Sent before the client is in the room, so its encoding is given
+    private sendResumeFailed(clientWs: ClientSocket, encoding: ClientEncoding, reason: string, message: string, oldestSeq?: number): void {
+        this.sendToClient(clientWs, {
+            type: 'resume_failed',
+            reason,
+            message,
+            oldestSeq,
+            seq: this.seq
+        } as ProxyMessage, true, encoding);
     }
-}
 
-export class YahooWebSocketProxyApp {
-    private app: express.Application;
-    private wss: WebSocketServer | null = null;
-    private config: Config;
-    private logger: Logger;
+    private isResumeSessionExpired(session: ResumeSession): boolean {
+        return session.disconnectedAt !== null && Date.now() - session.disconnectedAt > this.settings.resumeTokenTtlMs;
+    }
 
-    constructor(config: Config, logger: Logger) {
-        this.config = config;
-        this.logger = logger;
-        this.app = express();
-        this.setupMiddleware();
-        this.setupRoutes();
+    private retainMessage(retained: RetainedMessage): void {
+        this.retainedMessages.push(retained);
+        if (this.retainedMessages.length > this.settings.resumeWindowSize) {
+            this.retainedMessages.shift();
+        }
     }
 
-    private setupMiddleware(): void {
-        // Enable CORS for all routes
-        this.app.use(cors({
-            origin: true,
-            credentials: true
-        }));
+    private replaySnapshot(clientWs: ClientSocket, clientId: string, draftEvents: boolean, frames: string[]): void {
+        const bytes = frames.reduce((total, frame) => total + Buffer.byteLength(frame), 0);
+        this.logger.info(`📼 Replaying ${frames.length} cached Yahoo frames (${bytes} bytes) to client ${clientId} in room ${this.id}`);
+        
+        this.sendToClient(clientWs, {
+            type: 'snapshot_start',
+            frameCount: frames.length
+        } as ProxyMessage);
+        
+        for (const frame of frames) {
+            this.sendToClient(clientWs, this.buildYahooFrameMessage(frame, draftEvents ? decodeYahooFrame(frame) : null));
+        }
+        
+        this.sendToClient(clientWs, {
+            type: 'snapshot_end',
+            frameCount: frames.length,
+            seq: this.seq
+        } as ProxyMessage);
+    }
 
-        this.app.use(express.json());
+    private resetSnapshot(seat: Seat): void {
+        seat.snapshotFrames = [];
+        seat.snapshotBytes = 0;
+        seat.snapshotStale = false;
     }
 
-    private setupRoutes(): void {
-        // Health check endpoint
-        this.app.get('/health', (req, res) => {
-            res.json({
-                status: 'healthy',
-                activeRooms: rooms.size,
-                totalClients: clientConnections.size,
-                rooms: Array.from(rooms.keys())
-            });
-        });
+    private recordSnapshotFrame(seat: Seat, message: string): void {
+        if (seat.snapshotStale) {
+            return;
+        }
+        
+        const frameBytes = Buffer.byteLength(message);
+        if (seat.snapshotBytes + frameBytes > this.settings.snapshotMaxBytes) {
+            this.invalidateSnapshot(seat, `snapshot exceeded ${this.settings.snapshotMaxBytes} bytes`);
+            return;
+        }
+        
+        seat.snapshotFrames.push(message);
+        seat.snapshotBytes += frameBytes;
+    }
 
-        // Get room status
-        this.app.get('/rooms/:roomId/status', (req, res) => {
-            const room = rooms.get(req.params.roomId);
-            if (!room) {
-                return res.status(404).json({ error: 'Room not found' });
+    private invalidateSnapshot(seat: Seat, reason: string): void {
+        if (!seat.snapshotStale) {
+            this.logger.info(`🗑️ Discarding cached snapshot for ${this.describe(seat)}: ${reason}`);
+        }
+        seat.snapshotFrames = [];
+        seat.snapshotBytes = 0;
+        seat.snapshotStale = true;
+    }
+
+    public removeClient(clientWs: ClientSocket): void {
+        const clientInfo = this.clients.get(clientWs);
+        this.clients.delete(clientWs);
+        
+        if (clientInfo) {
+            this.logger.info(`👤 Client ${clientInfo.clientId} (draft position ${clientInfo.draftPosition}) left room ${this.id}. Remaining clients: ${this.clients.size}`);
+            
+            const session = this.resumeSessions.get(clientInfo.resumeToken);
+            if (session) {
+                session.disconnectedAt = Date.now();
+            }
+        }
+        
+        // Forget sessions that can no longer be resumed
+        this.resumeSessions.forEach((session, token) => {
+            if (this.isResumeSessionExpired(session)) {
+                this.resumeSessions.delete(token);
+            }
+        });
+        
+        // If no clients remain, schedule cleanup with a delay to handle rapid reconnections
+        if (this.clients.size === 0) {
+            // An armed autopick keeps the room connected so it can still pick for managers who left
+            const cleanupDelayMs = this.hasArmedAutopick() ? this.settings.autopickHoldMs : this.settings.roomCleanupDelayMs;
+            this.logger.info(`⏱️ Room ${this.id} is empty, scheduling cleanup in ${cleanupDelayMs}ms...`);
+            this.scheduleCleanup(cleanupDelayMs);
+            return;
+        }
+
+        // Other seats still have clients; close this seat's connection once it stays empty
+        const seat = this.seatOf(clientInfo);
+        if (seat && this.seatClientCount(seat) === 0) {
+            this.cancelSeatRelease(seat);
+            seat.releaseTimeout = setTimeout(() => {
+                seat.releaseTimeout = null;
+                this.logger.info(`🧹 Releasing empty ${this.describe(seat)}`);
+                this.releaseSeat(seat, 'No clients remaining in seat');
+            }, this.seatHasArmedAutopick(seat) ? this.settings.autopickHoldMs : this.settings.roomCleanupDelayMs);
+        }
+    }
+
+    private scheduleCleanup(delayMs: number): void {
+        // Cancel any existing cleanup timeout
+        if (this.cleanupTimeout) {
+            clearTimeout(this.cleanupTimeout);
+        }
+        
+        // Schedule cleanup after a delay to handle browser refreshes
+        this.cleanupTimeout = setTimeout(() => {
+            this.logger.info(`🧹 Cleaning up empty room ${this.id}`);
+            this.seats.forEach(seat => this.disconnectFromYahoo(seat));
+            this.cleanup();
+            this.onRemoved?.(this);
+        }, delayMs);
+    }
+
+    private cancelSeatRelease(seat: Seat): void {
+        if (seat.releaseTimeout) {
+            clearTimeout(seat.releaseTimeout);
+            seat.releaseTimeout = null;
+        }
+    }
+
+    private releaseSeat(seat: Seat, reason: string): void {
+        seat.isIntentionalDisconnect = true;
+        seat.hasJoined = false;
+        this.stopHeartbeat(seat);
+        this.stopLivenessCheck(seat);
+        this.cancelReconnect(seat);
+        this.cancelSeatRelease(seat);
+
+        if (seat.yahooWs) {
+            seat.yahooWs.close(1000, reason);
+            seat.yahooWs = null;
+        }
+
+        this.invalidateSnapshot(seat, reason);
+        this.dropOutboundQueue(seat, reason);
+        this.sharedFrames.forEach(shared => shared.deliveries.delete(seat.key));
+        this.pausedFrames = this.pausedFrames.filter(paused => paused.seat !== seat);
+        this.seats.delete(seat.key);
+    }
+
+    // Counts a frame in metrics and writes it to the session recording, if any
+    private trackFrame(direction: FrameDirection, payload: string, count: number = 1, clientId?: string, seatKey?: string): void {
+        recordFrame(direction, payload, count);
+        if (this.recorder && count > 0) {
+            this.recorder.record(direction, payload, clientId, seatKey);
+        }
+    }
+
+    // Upstream frames are recorded with their seat when the room has more than one
+    private trackUpstreamFrame(seat: Seat, direction: FrameDirection, payload: string): void {
+        this.trackFrame(direction, payload, 1, undefined, this.upstreamMode === UpstreamMode.Shared ? undefined : seat.key);
+    }
+
+    public trackClientFrame(clientId: string, message: string): void {
+        this.trackFrame('client_in', message, 1, clientId);
+    }
+
+    private sendToClient(clientWs: ClientSocket, message: ProxyMessage | EncodedMessage, record: boolean = true, encoding?: ClientEncoding): void {
+        const clientInfo = this.clients.get(clientWs);
+        const encoded = message instanceof EncodedMessage ? message : new EncodedMessage(message);
+        const payload = encoded.get(encoding ?? clientInfo?.encoding ?? ClientEncoding.Json);
+        clientWs.send(payload);
+        recordFrame('client_out', payload);
+        // Recorded in the JSON envelope whatever the client's encoding
+        if (record && this.recorder) {
+            this.recorder.record('client_out', encoded.json, clientInfo?.clientId);
+        }
+    }
+
+    // Sends to every client, or only to the clients of one seat
+    private broadcastToClients(message: ProxyMessage, seat?: Seat): void {
+        const endTimer = metrics.broadcastSeconds.startTimer();
+        const seatKey = this.upstreamMode === UpstreamMode.Shared ? undefined : seat?.key;
+        const sequenced: ProxyMessage = { ...message, seq: ++this.seq };
+        this.retainMessage({ seq: sequenced.seq!, message: sequenced, seatKey });
+        
+        const encoded = new EncodedMessage(sequenced);
+        let sentCount = 0;
+        this.clients.forEach((clientInfo, clientWs) => {
+            if (clientWs.readyState === WebSocket.OPEN && (!seatKey || clientInfo.seatKey === seatKey)) {
+                if (this.sendLive(clientWs, clientInfo, encoded, sequenced.seq!, CRITICAL_DELIVERY)) {
+                    recordFrame('client_out', encoded.get(clientInfo.encoding));
+                    sentCount++;
+                }
+            }
+        });
+        if (sentCount > 0) {
+            this.recorder?.record('client_out', encoded.json);
+        }
+        if (!seatKey) {
+            this.listeners.forEach(listener => listener.send(sequenced));
+        }
+        endTimer();
+    }
+
+    private buildYahooFrameMessage(frame: string, event: DraftEvent | null, seq?: number): ProxyMessage {
+        if (event) {
+            return { type: 'draft_event', event, data: frame, seq };
+        }
+        return { type: 'yahoo_message', data: frame, seq };
+    }
+
+    // Routes a frame from a seat's connection. League-wide frames arrive once per seat and are
+    // broadcast on first arrival; everything else only goes to the seat's own clients.
+    private relayYahooFrame(seat: Seat, frame: string): void {
+        if (this.upstreamMode === UpstreamMode.Shared) {
+            this.broadcastYahooFrame(frame);
+            return;
+        }
+
+        const event = decodeYahooFrame(frame);
+        if (!event || !isLeagueWideEvent(event)) {
+            this.broadcastYahooFrame(frame, seat);
+            return;
+        }
+
+        let shared = this.sharedFrames.get(frame);
+        if (!shared) {
+            shared = { deliveries: new Map(), broadcasts: 0, seq: 0 };
+            this.sharedFrames.set(frame, shared);
+            if (this.sharedFrames.size > this.settings.sharedFrameWindowSize) {
+                this.sharedFrames.delete(this.sharedFrames.keys().next().value!);
+            }
+        }
+
+        // Counting per seat lets a frame Yahoo legitimately repeats through once per repeat
+        const deliveries = (shared.deliveries.get(seat.key) || 0) + 1;
+        shared.deliveries.set(seat.key, deliveries);
+        if (deliveries > shared.broadcasts) {
+            shared.broadcasts = deliveries;
+            shared.seq = this.broadcastYahooFrame(frame);
+            return;
+        }
+
+        // Already broadcast from another seat; only clients that joined this seat since then lack it
+        const sharedSeq = shared.seq;
+        this.clients.forEach((clientInfo, clientWs) => {
+            if (clientWs.readyState === WebSocket.OPEN && clientInfo.seatKey === seat.key && clientInfo.joinedSeq >= sharedSeq) {
+                this.sendToClient(clientWs, this.buildYahooFrameMessage(frame, clientInfo.draftEvents ? event : null));
+            }
+        });
+    }
+
+    // Relays a Yahoo frame to every client, or to one seat's clients, decoding it once for clients
+    // that opted in to draft events. Returns the frame's sequence number.
+    private broadcastYahooFrame(frame: string, seat?: Seat): number {
+        const endTimer = metrics.broadcastSeconds.startTimer();
+        const seq = ++this.seq;
+        const seatKey = seat?.key;
+        this.retainMessage({ seq, frame, seatKey });
+        // Recorded once per broadcast in the plain envelope, not once per client
+        this.recorder?.record('client_out', JSON.stringify(this.buildYahooFrameMessage(frame, null, seq)), undefined, seatKey);
+        
+        let rawMessage: EncodedMessage | null = null;
+        let decodedMessage: EncodedMessage | null = null;
+        let decoded: DraftEvent | null | undefined;
+        const decode = (): DraftEvent | null => {
+            if (decoded === undefined) {
+                decoded = decodeYahooFrame(frame);
+            }
+            return decoded;
+        };
+        // Classified only when a lagging client needs it
+        let delivery: FrameDelivery | undefined;
+        const getDelivery = (): FrameDelivery => {
+            if (!delivery) {
+                delivery = yahooFrameDelivery(decode());
+            }
+            return delivery;
+        };
+        
+        this.clients.forEach((clientInfo, clientWs) => {
+            if (clientWs.readyState !== WebSocket.OPEN || (seatKey && clientInfo.seatKey !== seatKey)) {
+                return;
+            }
+            
+            let message: EncodedMessage;
+            if (clientInfo.draftEvents && decode()) {
+                decodedMessage = decodedMessage ?? new EncodedMessage(this.buildYahooFrameMessage(frame, decode(), seq));
+                message = decodedMessage;
+            } else {
+                rawMessage = rawMessage ?? new EncodedMessage(this.buildYahooFrameMessage(frame, null, seq));
+                message = rawMessage;
+            }
+            if (this.sendLive(clientWs, clientInfo, message, seq, getDelivery)) {
+                recordFrame('client_out', message.get(clientInfo.encoding));
+            }
+        });
+        
+        // Listeners get decoded frames, like clients that opted in to draft events
+        if (!seatKey && this.listeners.size > 0) {
+            const message = this.buildYahooFrameMessage(frame, decoded !== undefined ? decoded : decodeYahooFrame(frame), seq);
+            this.listeners.forEach(listener => listener.send(message));
+        }
+        endTimer();
+        return seq;
+    }
+
+    // Sends a live message to one client, subject to its send-buffer limits. Returns false if the
+    // message was held back, dropped, or the client was disconnected instead.
+    private sendLive(clientWs: ClientSocket, clientInfo: ClientInfo, message: EncodedMessage, seq: number, delivery: FrameDelivery | (() => FrameDelivery)): boolean {
+        const bufferedAmount = clientWs.bufferedAmount;
+        if (bufferedAmount > this.settings.clientBufferHardLimitBytes || (bufferedAmount > this.settings.clientBufferSoftLimitBytes && this.settings.slowClientPolicy === SlowClientPolicy.Disconnect)) {
+            this.disconnectSlowClient(clientWs, clientInfo, bufferedAmount);
+            return false;
+        }
+        
+        if (bufferedAmount <= this.settings.clientBufferSoftLimitBytes) {
+            if (clientInfo.backlog) {
+                this.flushBacklog(clientWs, clientInfo);
+            }
+            clientWs.send(message.get(clientInfo.encoding));
+            return true;
+        }
+        
+        if (!clientInfo.backlog) {
+            this.logger.warn(`🐢 Client ${clientInfo.clientId} in room ${this.id} is lagging with ${bufferedAmount} bytes buffered`);
+            clientInfo.backlog = { sinceSeq: seq, droppedCount: 0, coalescedCount: 0, heldFrames: new Map() };
+        }
+        const backlog = clientInfo.backlog;
+        const resolved = typeof delivery === 'function' ? delivery() : delivery;
+        if (resolved.priority === 'droppable' || (resolved.priority === 'state' && this.settings.slowClientPolicy === SlowClientPolicy.Drop)) {
+            backlog.droppedCount++;
+            metrics.slowClientFrames.inc({ action: 'dropped' });
+            return false;
+        }
+        if (resolved.priority === 'state') {
+            if (backlog.heldFrames.has(resolved.key)) {
+                backlog.coalescedCount++;
+                metrics.slowClientFrames.inc({ action: 'coalesced' });
+            }
+            backlog.heldFrames.set(resolved.key, message);
+            return false;
+        }
+        clientWs.send(message.get(clientInfo.encoding));
+        return true;
+    }
+    
+    // Delivers the latest held state frames to a client that caught up, and tells it what it
+    // missed so it can resume from the first missed sequence number
+    private flushBacklog(clientWs: ClientSocket, clientInfo: ClientInfo): void {
+        const backlog = clientInfo.backlog!;
+        clientInfo.backlog = null;
+        backlog.heldFrames.forEach(message => this.sendToClient(clientWs, message, false));
+        this.logger.info(`🐇 Client ${clientInfo.clientId} in room ${this.id} caught up (${backlog.droppedCount} frames dropped, ${backlog.coalescedCount} coalesced)`);
+        if (backlog.droppedCount > 0 || backlog.coalescedCount > 0) {
+            this.sendToClient(clientWs, {
+                type: 'resync_required',
+                reason: 'slow_consumer',
+                message: 'Some messages were skipped while your connection was slow; reconnect with lastSeq set to fromSeq - 1 to fetch them',
+                fromSeq: backlog.sinceSeq,
+                droppedCount: backlog.droppedCount,
+                coalescedCount: backlog.coalescedCount
+            } as ProxyMessage);
+        }
+    }
+    
+    private disconnectSlowClient(clientWs: ClientSocket, clientInfo: ClientInfo, bufferedAmount: number): void {
+        this.logger.warn(`🐢 Disconnecting slow client ${clientInfo.clientId} from room ${this.id} with ${bufferedAmount} bytes buffered`);
+        metrics.slowClientDisconnects.inc();
+        clientWs.close(CloseCode.SlowConsumer, 'Client too slow; reconnect and resume');
+    }
+
+    public listClients(): { clientId: string; draftPosition: number; draftEvents: boolean; role: ClientRole; seatKey: string | null }[] {
+        return Array.from(this.clients.values()).map(({ clientId, draftPosition, draftEvents, role, seatKey }) => ({ clientId, draftPosition, draftEvents, role, seatKey }));
+    }
+
+    // Closes one client's connection. Returns false if the client is not in this room.
+    public kickClient(clientId: string, reason: string): boolean {
+        for (const [clientWs, clientInfo] of this.clients) {
+            if (clientInfo.clientId === clientId) {
+                // Kicked clients must not be able to resume their session
+                this.resumeSessions.delete(clientInfo.resumeToken);
+                clientWs.close(CloseCode.KickedByOperator, reason);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    public broadcastNotice(message: string): void {
+        this.broadcastToClients({
+            type: 'system_notice',
+            message
+        });
+    }
+
+    // While paused, Yahoo frames are held back and client frames are not sent upstream
+    public pauseRelay(): void {
+        if (this.relayPaused) {
+            return;
+        }
+        this.relayPaused = true;
+        this.logger.info(`⏸️ Relaying paused for room ${this.id}`);
+        this.broadcastToClients({ type: 'relay_paused' });
+    }
+
+    public resumeRelay(): void {
+        if (!this.relayPaused) {
+            return;
+        }
+        this.relayPaused = false;
+        const heldFrames = this.pausedFrames;
+        this.pausedFrames = [];
+        
+        this.logger.info(`▶️ Relaying resumed for room ${this.id}, flushing ${heldFrames.length} held Yahoo frames`);
+        this.broadcastToClients({ type: 'relay_resumed', frameCount: heldFrames.length });
+        heldFrames.forEach(({ seat, frame }) => this.relayYahooFrame(seat, frame));
+    }
+
+    // Sends a client's frame over the connection of the client's seat, or queues it while the
+    // connection is being (re)established. Frames the client may not send, or that cannot be sent,
+    // are answered with send_rejected, or with a rejected yahoo_ack when the client gave a requestId.
+    public sendToYahoo(clientWs: ClientSocket, message: string, requestId?: string): void {
+        const clientInfo = this.clients.get(clientWs);
+        if (!clientInfo) {
+            return;
+        }
+        
+        if (clientInfo.rateLimiter && !this.checkFrameRate(clientWs, clientInfo, clientInfo.rateLimiter, message, requestId)) {
+            return;
+        }
+        
+        if (clientInfo.role === 'spectator') {
+            this.rejectClientFrame(clientWs, 'read_only', 'Spectators cannot send to Yahoo', message, requestId);
+            return;
+        }
+        
+        // Picks and queue changes must be for the sender's own draft position
+        const code = message.split('|')[0];
+        if (code === YahooFrameCode.Pick || code === YahooFrameCode.Queue) {
+            const event = decodeYahooFrame(message);
+            if (!event || (event.kind !== 'pick' && event.kind !== 'queue')) {
+                this.rejectClientFrame(clientWs, 'malformed_frame', 'Pick or queue frame could not be parsed', message, requestId);
+                return;
+            }
+            if (event.draftPosition !== clientInfo.draftPosition) {
+                this.rejectClientFrame(clientWs, 'wrong_seat', `Frame targets draft position ${event.draftPosition}, not your draft position ${clientInfo.draftPosition}`, message, requestId);
+                return;
+            }
+        }
+        
+        if (this.relayPaused) {
+            this.rejectClientFrame(clientWs, 'relay_paused', 'Relaying is paused for this room', message, requestId);
+            return;
+        }
+        
+        const seat = this.seatOf(clientInfo);
+        if (seat && seat.yahooWs && this.isSeatOpen(seat)) {
+            this.sendClientFrame(seat, clientWs, message, requestId);
+        } else if (seat && this.settings.outboundQueueSize > 0 && (seat.isConnectingToYahoo || seat.reconnectTimeout)) {
+            this.queueOutboundFrame(seat, clientWs, message, requestId);
+        } else {
+            this.rejectClientFrame(clientWs, 'not_connected', 'Not connected to Yahoo', message, requestId);
+        }
+    }
+
+    private sendClientFrame(seat: Seat, clientWs: ClientSocket, frame: string, requestId?: string): void {
+        this.logger.debug(`📤 Sending to Yahoo from ${this.describe(seat)}:`, frame);
+        seat.yahooWs!.send(frame);
+        this.trackUpstreamFrame(seat, 'upstream_out', frame);
+        this.trackPickInFlight(frame);
+        if (requestId !== undefined) {
+            this.sendAck(clientWs, requestId, 'sent');
+        }
+    }
+
+    private sendAck(clientWs: ClientSocket, requestId: string, status: AckStatus, reason?: SendRejectionReason, message?: string, retryAfterMs?: number): void {
+        if (clientWs.readyState !== WebSocket.OPEN) {
+            return;
+        }
+        this.sendToClient(clientWs, {
+            type: 'yahoo_ack',
+            requestId,
+            status,
+            reason,
+            message,
+            retryAfterMs
+        } as ProxyMessage);
+    }
+
+    private rejectClientFrame(clientWs: ClientSocket, reason: SendRejectionReason, message: string, frame?: string, requestId?: string, retryAfterMs?: number): void {
+        const clientId = this.clients.get(clientWs)?.clientId;
+        // A client over its rate limit is logged once per run of strikes by checkFrameRate
+        if (reason === 'rate_limited') {
+            this.logger.debug(`⚠️ Rejected frame from client ${clientId} in room ${this.id}: ${reason}`);
+        } else {
+            this.logger.warn(`⚠️ Rejected frame from client ${clientId} in room ${this.id}: ${reason}`);
+        }
+        metrics.clientFramesRejected.inc({ reason });
+        
+        if (requestId !== undefined) {
+            this.sendAck(clientWs, requestId, 'rejected', reason, message, retryAfterMs);
+            return;
+        }
+        if (clientWs.readyState !== WebSocket.OPEN) {
+            return;
+        }
+        this.sendToClient(clientWs, {
+            type: 'send_rejected',
+            reason,
+            message,
+            data: frame,
+            retryAfterMs
+        } as ProxyMessage);
+    }
+
+    private createRateLimiter(): FrameRateLimiter | null {
+        const limits = this.settings.frameRateLimits;
+        return limits.frameRate > 0 || limits.heartbeatRate > 0 ? new FrameRateLimiter(limits) : null;
+    }
+
+    // Returns false when the frame is over the client's rate limit. Extra heartbeats are dropped
+    // without a send_rejected, since the seat sends its own; other frames are rejected, and a
+    // client that keeps sending past the strike limit is closed.
+    private checkFrameRate(clientWs: ClientSocket, clientInfo: ClientInfo, rateLimiter: FrameRateLimiter, frame: string, requestId?: string): boolean {
+        const decision = rateLimiter.check(frame);
+        if (decision.allowed) {
+            return true;
+        }
+        
+        if (decision.kind === 'heartbeat') {
+            metrics.clientHeartbeatsDropped.inc();
+            if (requestId !== undefined) {
+                this.sendAck(clientWs, requestId, 'rejected', 'rate_limited', 'Heartbeat rate limit exceeded');
+            }
+            return false;
+        }
+        
+        const limits = this.settings.frameRateLimits;
+        if (decision.strikes === 1) {
+            this.logger.warn(`🚦 Client ${clientInfo.clientId} in room ${this.id} is over the frame rate limit`);
+        }
+        if (limits.strikeLimit > 0 && decision.strikes > limits.strikeLimit) {
+            // Frames that were already on their way when the client was closed are dropped quietly
+            if (clientWs.readyState === WebSocket.OPEN) {
+                this.logger.warn(`🚦 Disconnecting client ${clientInfo.clientId} from room ${this.id} after ${limits.strikeLimit} rate-limited frames`);
+                metrics.rateLimitDisconnects.inc();
+                this.sendToClient(clientWs, {
+                    type: 'limit_exceeded',
+                    limit: 'frame_rate',
+                    message: `Kept sending more than ${limits.frameRate} frames per second`
+                } as ProxyMessage);
+                clientWs.close(CloseCode.RateLimited, 'Frame rate limit exceeded');
+            }
+            return false;
+        }
+        
+        this.rejectClientFrame(clientWs, 'rate_limited', `Over the limit of ${limits.frameRate} frames per second; retry in ${decision.retryAfterMs}ms`, frame, requestId, decision.retryAfterMs);
+        return false;
+    }
+
+    private queueOutboundFrame(seat: Seat, clientWs: ClientSocket, frame: string, requestId?: string): void {
+        if (seat.outboundQueue.length >= this.settings.outboundQueueSize) {
+            this.rejectClientFrame(clientWs, 'queue_full', `Outbound queue is full (${this.settings.outboundQueueSize} frames)`, frame, requestId);
+            return;
+        }
+        
+        seat.outboundQueue.push({ clientWs, frame, requestId, queuedAt: Date.now() });
+        metrics.clientFramesQueued.inc();
+        this.logger.debug(`📥 Queued client frame for ${this.describe(seat)} until Yahoo is connected (${seat.outboundQueue.length} queued)`);
+        if (requestId !== undefined) {
+            this.sendAck(clientWs, requestId, 'queued');
+        }
+        if (!seat.outboundQueueTimer) {
+            this.scheduleOutboundExpiry(seat);
+        }
+    }
+
+    // Sleeps until the oldest queued frame goes stale, so its sender hears back even if Yahoo never connects
+    private scheduleOutboundExpiry(seat: Seat): void {
+        const oldest = seat.outboundQueue[0];
+        if (!oldest) {
+            return;
+        }
+        const delayMs = Math.max(0, oldest.queuedAt + this.settings.outboundQueueTtlMs - Date.now());
+        seat.outboundQueueTimer = setTimeout(() => {
+            seat.outboundQueueTimer = null;
+            this.expireOutboundFrames(seat);
+            this.scheduleOutboundExpiry(seat);
+        }, delayMs);
+    }
+
+    private expireOutboundFrames(seat: Seat): void {
+        const now = Date.now();
+        while (seat.outboundQueue.length > 0 && now - seat.outboundQueue[0].queuedAt >= this.settings.outboundQueueTtlMs) {
+            const queued = seat.outboundQueue.shift()!;
+            this.rejectClientFrame(queued.clientWs, 'expired', `Not sent within ${this.settings.outboundQueueTtlMs}ms`, queued.frame, queued.requestId);
+        }
+    }
+
+    private clearOutboundQueueTimer(seat: Seat): void {
+        if (seat.outboundQueueTimer) {
+            clearTimeout(seat.outboundQueueTimer);
+            seat.outboundQueueTimer = null;
+        }
+    }
+
+    // Sends queued frames once the join frame is out; stale ones are rejected instead
+    private flushOutboundQueue(seat: Seat): void {
+        this.clearOutboundQueueTimer(seat);
+        this.expireOutboundFrames(seat);
+        const queued = seat.outboundQueue;
+        seat.outboundQueue = [];
+        
+        for (const { clientWs, frame, requestId } of queued) {
+            if (!this.clients.has(clientWs)) {
+                continue; // Sender left while the frame was queued
+            }
+            if (this.relayPaused) {
+                this.rejectClientFrame(clientWs, 'relay_paused', 'Relaying is paused for this room', frame, requestId);
+            } else if (seat.yahooWs && this.isSeatOpen(seat)) {
+                this.sendClientFrame(seat, clientWs, frame, requestId);
+            }
+        }
+    }
+
+    private dropOutboundQueue(seat: Seat, message: string): void {
+        this.clearOutboundQueueTimer(seat);
+        const queued = seat.outboundQueue;
+        seat.outboundQueue = [];
+        queued.forEach(({ clientWs, frame, requestId }) => this.rejectClientFrame(clientWs, 'not_connected', message, frame, requestId));
+    }
+
+    private disconnectFromYahoo(seat: Seat): void {
+        this.logger.info(`🔌 Intentionally disconnecting from Yahoo for ${this.describe(seat)}`);
+        seat.isIntentionalDisconnect = true;
+        seat.hasJoined = false; // Reset join status
+        this.cancelReconnect(seat);
+        
+        if (seat.yahooWs) {
+            seat.yahooWs.close(1000, 'No clients remaining in room');
+        }
+    }
+
+    // Stores a manager's ranked queue and turns autopick on or off for their draft position.
+    // Uploading a queue enables autopick unless the same message sets enabled to false.
+    public configureAutopick(clientWs: ClientSocket, data: AutopickData): void {
+        const clientInfo = this.clients.get(clientWs);
+        if (!clientInfo) {
+            return;
+        }
+        
+        if (clientInfo.role === 'spectator') {
+            this.rejectClientFrame(clientWs, 'read_only', 'Spectators cannot configure autopick');
+            return;
+        }
+        
+        const draftPosition = clientInfo.draftPosition;
+        const settings = this.autopicks.get(draftPosition) || { playerIds: [], enabled: false, lastOverallPick: null };
+        if (data.playerIds !== undefined) {
+            settings.playerIds = data.playerIds;
+        }
+        settings.enabled = data.enabled !== undefined ? data.enabled : (data.playerIds !== undefined || settings.enabled);
+        this.autopicks.set(draftPosition, settings);
+        this.logger.info(`🤖 Client ${clientInfo.clientId} ${settings.enabled ? 'enabled' : 'disabled'} autopick for draft position ${draftPosition} in room ${this.id} (${settings.playerIds.length} players queued)`);
+        
+        // Let every manager of the draft position know, so co-managers see the change
+        const update = new EncodedMessage({
+            type: 'autopick_updated',
+            draftPosition,
+            enabled: settings.enabled,
+            queueLength: settings.playerIds.length
+        } as ProxyMessage);
+        this.clients.forEach((info, ws) => {
+            if (info.draftPosition === draftPosition && info.role !== 'spectator' && ws.readyState === WebSocket.OPEN) {
+                this.sendToClient(ws, update);
+            }
+        });
+    }
+
+    // Armed while enabled with at least one queued player still undrafted
+    private isAutopickArmed(draftPosition: number): boolean {
+        const settings = this.autopicks.get(draftPosition);
+        return !!settings && settings.enabled && settings.playerIds.some(id => !this.board.isDrafted(id));
+    }
+
+    private hasArmedAutopick(): boolean {
+        return Array.from(this.seats.values()).some(seat => this.seatHasArmedAutopick(seat));
+    }
+
+    // Whether the seat's connection must stay up without clients to pick for its draft position
+    private seatHasArmedAutopick(seat: Seat): boolean {
+        return this.isAutopickArmed(seat.draftPosition);
+    }
+
+    // The connection a pick for the draft position goes out on. Only a connection that joined
+    // Yahoo as that position's manager may pick for it; in shared mode that is the room's single
+    // connection when it was opened for the position, and no other position can autopick.
+    private seatForPosition(draftPosition: number): Seat | undefined {
+        return Array.from(this.seats.values()).find(seat => seat.draftPosition === draftPosition);
+    }
+
+    private hasConnectedManager(draftPosition: number): boolean {
+        return Array.from(this.clients.values()).some(clientInfo => clientInfo.draftPosition === draftPosition && clientInfo.role !== 'spectator');
+    }
+
+    // Updates the draft board from every seat's Yahoo frames. League-wide frames arrive once per
+    // seat, so only the first sighting of a pick or of a turn on the clock is reported.
+    private observeDraftFrame(frame: string): void {
+        const event = decodeYahooFrame(frame);
+        if (!event) {
+            return;
+        }
+        
+        const isNew = this.board.apply(event);
+        if (event.kind === 'pick') {
+            this.picksInFlight.delete(event.playerId);
+            if (isNew) {
+                this.webhooks?.emit(this.leagueId, 'draft.pick', {
+                    overallPick: event.overallPick,
+                    round: event.round,
+                    draftPosition: event.draftPosition,
+                    playerId: event.playerId
+                });
+                if (this.board.isComplete(this.settings.draftRounds)) {
+                    this.completeDraft();
+                }
+            }
+        } else if (event.kind === 'clock') {
+            if (isNew) {
+                this.webhooks?.emit(this.leagueId, 'draft.on_clock', {
+                    overallPick: event.overallPick,
+                    round: event.round,
+                    draftPosition: event.draftPosition,
+                    secondsRemaining: event.secondsRemaining,
+                    managerConnected: this.hasConnectedManager(event.draftPosition)
+                });
+            }
+            this.checkAutopick(event);
+        }
+    }
+
+    // Called when Yahoo closes the draft, or earlier once the configured number of rounds, if
+    // any, has been picked
+    private completeDraft(): void {
+        if (this.draftCompleted) {
+            return;
+        }
+        this.draftCompleted = true;
+        this.logger.info(`🏁 Draft completed in room ${this.id} after ${this.board.pickCount} picks`);
+        this.webhooks?.emit(this.leagueId, 'draft.completed', { picks: this.board.pickCount });
+        this.draftStore?.save(this.getDraftResult());
+    }
+
+    private notifyUpstreamClosed(seat: Seat, code: number, reason: string): void {
+        this.webhooks?.emit(this.leagueId, 'upstream.lost', {
+            seatKey: seat.key,
+            draftPosition: seat.draftPosition,
+            code,
+            reason,
+            clientsCount: this.seatClientCount(seat)
+        });
+    }
+
+    // Picks the top available queued player for a draft position whose clock has run below the
+    // threshold while none of its managers is connected
+    private checkAutopick(clock: ClockEvent): void {
+        const settings = this.autopicks.get(clock.draftPosition);
+        if (!settings || !settings.enabled || settings.lastOverallPick === clock.overallPick
+            || clock.secondsRemaining > this.settings.autopickThresholdSeconds || this.hasConnectedManager(clock.draftPosition)) {
+            return;
+        }
+        
+        const seat = this.seatForPosition(clock.draftPosition);
+        if (!seat) {
+            settings.lastOverallPick = clock.overallPick;
+            this.reportAutopick(clock, 'skipped', 'unavailable', `No Yahoo connection is joined as draft position ${clock.draftPosition}`);
+            return;
+        }
+        
+        // Left unhandled so a later clock frame can still pick once the connection is back
+        if (this.relayPaused || !seat.yahooWs || !this.isSeatOpen(seat)) {
+            this.logger.warn(`⚠️ Cannot autopick for draft position ${clock.draftPosition} in room ${this.id}: ${this.relayPaused ? 'relaying is paused' : 'not connected to Yahoo'}`);
+            return;
+        }
+        
+        settings.lastOverallPick = clock.overallPick;
+        const playerId = settings.playerIds.find(id => !this.board.isDrafted(id));
+        if (!playerId) {
+            this.reportAutopick(clock, 'skipped', 'queue_exhausted', 'No player in the autopick queue is still available');
+            return;
+        }
+        
+        const frame = encodePickFrame({ overallPick: clock.overallPick, round: clock.round, draftPosition: clock.draftPosition, playerId });
+        seat.yahooWs.send(frame);
+        this.trackUpstreamFrame(seat, 'upstream_out', frame);
+        this.trackPickInFlight(frame);
+        this.board.markAutopick(playerId);
+        this.reportAutopick(clock, 'submitted', 'manager_disconnected', `Picked ${playerId} with ${clock.secondsRemaining}s left because no manager was connected`, playerId);
+    }
+
+    private reportAutopick(clock: ClockEvent, outcome: AutopickOutcome, reason: string, message: string, playerId?: string): void {
+        this.logger.info(`🤖 Autopick ${outcome} for draft position ${clock.draftPosition} at pick ${clock.overallPick} in room ${this.id}: ${message}`);
+        metrics.autopicks.inc({ outcome });
+        this.broadcastToClients({
+            type: 'autopick',
+            outcome,
+            reason,
+            message,
+            draftPosition: clock.draftPosition,
+            overallPick: clock.overallPick,
+            secondsRemaining: clock.secondsRemaining,
+            playerId
+        });
+        this.webhooks?.emit(this.leagueId, 'draft.autopick', {
+            outcome,
+            reason,
+            message,
+            draftPosition: clock.draftPosition,
+            overallPick: clock.overallPick,
+            secondsRemaining: clock.secondsRemaining,
+            playerId
+        });
+    }
+
+    private trackPickInFlight(frame: string): void {
+        const event = decodeYahooFrame(frame);
+        if (event?.kind === 'pick') {
+            this.picksInFlight.set(event.playerId, Date.now());
+        }
+    }
+
+    // Whether picks sent to Yahoo are still unconfirmed or waiting in an outbound queue
+    public hasPicksInFlight(): boolean {
+        const now = Date.now();
+        this.picksInFlight.forEach((sentAt, playerId) => {
+            if (now - sentAt > this.settings.pickInFlightTimeoutMs) {
+                this.picksInFlight.delete(playerId);
+            }
+        });
+        const hasQueuedPick = Array.from(this.seats.values()).some(seat => seat.outboundQueue.some(queued => decodeYahooFrame(queued.frame)?.kind === 'pick'));
+        return this.picksInFlight.size > 0 || hasQueuedPick;
+    }
+
+    // Tells clients the server is about to restart and when to reconnect
+    public notifyRestart(reconnectDelayMs: number): void {
+        this.broadcastToClients({
+            type: 'server_restarting',
+            delayMs: reconnectDelayMs,
+            message: `Server is restarting; reconnect in ${Math.round(reconnectDelayMs / 1000)} seconds`
+        });
+    }
+
+    public exportState(): PersistedRoom {
+        return {
+            leagueId: this.leagueId,
+            yahooWebSocketUrl: this.yahooWebSocketUrl,
+            upstreamMode: this.upstreamMode,
+            seq: this.seq,
+            seats: Array.from(this.seats.values()).map(seat => ({
+                key: seat.key,
+                draftPosition: seat.draftPosition,
+                platformUserId: seat.platformUserId
+            })),
+            autopicks: Array.from(this.autopicks.entries()).map(([draftPosition, settings]) => ({
+                draftPosition,
+                playerIds: settings.playerIds,
+                enabled: settings.enabled
+            })),
+            managers: Array.from(this.managers.entries()).map(([draftPosition, platformUserId]) => ({ draftPosition, platformUserId })),
+            board: this.board.getState(),
+            draftCompleted: this.draftCompleted
+        };
+    }
+
+    // Loads state saved before a restart into this new, empty room. Seats stay disconnected until a
+    // client rejoins them, and the room is cleaned up if nobody does within idleTimeoutMs.
+    public restoreState(state: PersistedRoom, idleTimeoutMs: number): void {
+        this.seq = state.seq;
+        // Seat keys depend on the upstream mode; seats saved under another mode cannot be matched
+        if (state.upstreamMode === this.upstreamMode) {
+            state.seats.forEach(persisted => {
+                const seat = this.createSeat(persisted.key, persisted.draftPosition, persisted.platformUserId);
+                seat.restored = true;
+                seat.releaseTimeout = setTimeout(() => {
+                    seat.releaseTimeout = null;
+                    this.releaseSeat(seat, 'Restored seat was not rejoined');
+                }, idleTimeoutMs);
+            });
+        }
+        state.autopicks.forEach(({ draftPosition, playerIds, enabled }) => {
+            this.autopicks.set(draftPosition, { playerIds, enabled, lastOverallPick: null });
+        });
+        state.managers.forEach(({ draftPosition, platformUserId }) => this.managers.set(draftPosition, platformUserId));
+        this.board.restore(state.board);
+        this.draftCompleted = state.draftCompleted;
+        
+        this.logger.info(`♻️ Restored room ${this.id} at seq ${this.seq} with ${this.seats.size} seats and ${this.board.pickCount} picks`);
+        this.scheduleCleanup(idleTimeoutMs);
+    }
+
+    public getBoard(): DraftBoardState {
+        return this.board.getState();
+    }
+
+    public getDraftResult(): DraftResult {
+        const { order, picks } = this.board.getState();
+        const positions = new Set([...order, ...this.managers.keys()]);
+        return {
+            leagueId: this.leagueId,
+            completed: this.draftCompleted,
+            savedAt: Date.now(),
+            teams: Array.from(positions).sort((a, b) => a - b).map(draftPosition => ({
+                draftPosition,
+                platformUserId: this.managers.get(draftPosition) ?? null
+            })),
+            picks
+        };
+    }
+
+    public addListener(listener: RoomListener): void {
+        this.listeners.add(listener);
+    }
+
+    public removeListener(listener: RoomListener): void {
+        this.listeners.delete(listener);
+    }
+
+    public listenerCount(): number {
+        return this.listeners.size;
+    }
+
+    public cleanup(): void {
+        otelMetrics.roomsCleanedUp.add(1);
+        withSpan('room.cleanup', leagueAttributes(this.leagueId), () => this.releaseResources());
+    }
+
+    private releaseResources(): void {
+        this.logger.info(`🧹 Cleaning up room ${this.id}`);
+        
+        // Clear any pending cleanup timeout
+        if (this.cleanupTimeout) {
+            clearTimeout(this.cleanupTimeout);
+            this.cleanupTimeout = null;
+        }
+        
+        this.seats.forEach(seat => this.releaseSeat(seat, 'Room cleanup'));
+        this.clients.clear();
+        this.retainedMessages = [];
+        this.resumeSessions.clear();
+        this.pausedFrames = [];
+        this.sharedFrames.clear();
+        this.autopicks.clear();
+        // Keep whatever was drafted so far; a completed draft was already saved but may have late picks
+        if (this.board.pickCount > 0) {
+            this.draftStore?.save(this.getDraftResult());
+        }
+        this.board.clear();
+        this.managers.clear();
+        this.picksInFlight.clear();
+        this.listeners.forEach(listener => listener.close());
+        this.listeners.clear();
+        this.recorder?.close();
+        this.webhooks?.emit(this.leagueId, 'room.closed');
+    }
+
+    private getSeatStatus(seat: Seat) {
+        return {
+            seatKey: seat.key,
+            draftPosition: seat.draftPosition, // Position used for this seat's Yahoo join
+            platformUserId: seat.platformUserId,
+            clientsCount: this.seatClientCount(seat),
+            yahooConnected: this.isSeatOpen(seat),
+            hasJoined: seat.hasJoined, // Whether join message was sent
+            lastHeartbeat: seat.lastHeartbeat,
+            lastReceivedAt: seat.lastReceivedAt,
+            latencyMs: seat.latencyMs,
+            stale: seat.stale,
+            reconnectAttempts: seat.reconnectAttempts,
+            snapshotFrames: seat.snapshotFrames.length,
+            snapshotBytes: seat.snapshotBytes,
+            snapshotStale: seat.snapshotStale,
+            isIntentionalDisconnect: seat.isIntentionalDisconnect
+        };
+    }
+
+    public getStatus() {
+        const clientPositions = Array.from(this.clients.values()).map(client => client.draftPosition);
+        return {
+            roomId: this.id,
+            leagueId: this.leagueId,
+            upstreamMode: this.upstreamMode,
+            clientsCount: this.clients.size,
+            clientDraftPositions: clientPositions, // All client positions in this room
+            relayPaused: this.relayPaused,
+            seq: this.seq,
+            retainedMessages: this.retainedMessages.length,
+            seats: Array.from(this.seats.values()).map(seat => this.getSeatStatus(seat)), // One per upstream connection
+            autopick: Array.from(this.autopicks.entries()).map(([draftPosition, settings]) => ({
+                draftPosition,
+                enabled: settings.enabled,
+                queueLength: settings.playerIds.length, // The queue itself stays private to the manager
+                armed: this.isAutopickArmed(draftPosition)
+            }))
+        };
+    }
+}
+
+export class YahooWebSocketProxyApp {
+    private app: express.Application;
+    private wss: WebSocketServer | null = null;
+    private config: Config;
+    private logger: Logger;
+    private upstreamLookup?: LookupFunction;
+    private webhooks: WebhookDispatcher;
+    private draftStore: DraftStore;
+    private draining: boolean = false; // Set before shutdown; no new rooms are created
+    private rooms: Map<string, Room> = new Map(); // Map<roomId, Room> of the rooms this node owns
+    private clientConnections: Map<string, ClientConnection> = new Map(); // Map<clientId, ClientConnection>
+    private roomRegistry: RoomRegistry;
+    private relayedClients: Map<string, RelayedClient> = new Map(); // Map<connectionId, RelayedClient>
+    private remoteClients: Map<string, RemoteClient> = new Map(); // Map<`${nodeId}/${connectionId}`, RemoteClient>
+    private connectionsPerIp: Map<string, number> = new Map(); // Map<address, open sockets> of sockets connected to this node
+    private leaseTimer: NodeJS.Timeout | null = null;
+
+    constructor(config: Config, logger: Logger) {
+        this.config = config;
+        this.logger = logger;
+        this.upstreamLookup = config.upstreamPolicy ? createGuardedLookup(config.upstreamPolicy) : undefined;
+        this.draftStore = new DraftStore(config.draftStoreDir || './drafts', logger);
+        this.warnOnSharedAddressLimit();
+        
+        // Nodes sharing leagues through Redis also share webhook subscriptions there
+        const nodeId = config.nodeId || uuidv4();
+        let webhookStore: WebhookStore;
+        if (config.roomRegistry === RoomRegistryKind.Redis) {
+            const leaseMs = config.registryLeaseMs || 15000;
+            const redis = new Redis(config.redisUrl!);
+            this.roomRegistry = new RedisRoomRegistry(redis, nodeId, leaseMs, logger);
+            webhookStore = new RedisWebhookStore(redis.duplicate(), logger);
+            this.leaseTimer = setInterval(() => {
+                this.checkLeases().catch(error => this.logger.error('❌ Failed to check room leases:', error));
+            }, leaseMs / 3);
+        } else {
+            this.roomRegistry = new InMemoryRoomRegistry(nodeId);
+            webhookStore = new FileWebhookStore(config.webhookStorePath || './webhook-subscriptions.json', logger);
+        }
+        this.webhooks = new WebhookDispatcher(webhookStore, {
+            maxAttempts: config.webhookMaxAttempts,
+            retryBaseDelayMs: config.webhookRetryBaseDelayMs,
+            retryMaxDelayMs: config.webhookRetryMaxDelayMs,
+            timeoutMs: config.webhookTimeoutMs,
+            deadLetterPath: config.webhookDeadLetterPath
+        }, logger);
+        this.roomRegistry.onMessage((fromNodeId, message) => this.handleNodeMessage(fromNodeId, message));
+        
+        this.app = express();
+        this.setupMiddleware();
+        this.setupRoutes();
+    }
+
+    private setupMiddleware(): void {
+        // Enable CORS for all routes
+        this.app.use(cors({
+            origin: true,
+            credentials: true
+        }));
+
+        this.app.use(express.json());
+    }
+
+    private setupRoutes(): void {
+        // Health check endpoint
+        this.app.get('/health', (req, res) => {
+            // Draining reports unhealthy so load balancers stop sending new clients
+            res.status(this.draining ? 503 : 200).json({
+                status: this.draining ? 'draining' : 'healthy',
+                nodeId: this.roomRegistry.nodeId,
+                activeRooms: this.rooms.size,
+                totalClients: this.clientConnections.size,
+                relayedClients: this.relayedClients.size,
+                rooms: Array.from(this.rooms.keys())
+            });
+        });
+
+        // Prometheus metrics
+        this.app.get('/metrics', async (req, res) => {
+            metrics.rooms.set(this.rooms.size);
+            metrics.clients.set(this.clientConnections.size);
+            metrics.upstreamSockets.set(Array.from(this.rooms.values()).reduce((total, room) => total + room.openUpstreamCount(), 0));
+            metrics.relayedClients.set(this.relayedClients.size);
+            metrics.eventStreamListeners.set(Array.from(this.rooms.values()).reduce((total, room) => total + room.listenerCount(), 0));
+            
+            res.set('Content-Type', registry.contentType);
+            res.send(await registry.metrics());
+        });
+
+        // Read-only draft board, for consumers that cannot speak the WebSocket protocol
+        this.app.get('/rooms/:roomId/board', (req, res) => {
+            const room = this.authorizeRoomReader(req, res);
+            if (!room) {
+                return;
+            }
+            
+            res.json({ roomId: room.id, leagueId: room.leagueId, ...room.getBoard() });
+        });
+
+        // Server-Sent Events feed of the room-wide messages clients receive, starting with the board
+        this.app.get('/rooms/:roomId/events', (req, res) => {
+            const room = this.authorizeRoomReader(req, res);
+            if (!room) {
+                return;
+            }
+            
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive'
+            });
+            const writeEvent = (type: string, data: unknown, id?: number) => {
+                res.write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+            };
+            const listener: RoomListener = {
+                send: message => writeEvent(message.type, message, message.seq),
+                close: () => res.end()
+            };
+            
+            writeEvent('board', room.getBoard());
+            room.addListener(listener);
+            // Comment lines keep intermediaries from closing an idle stream
+            const keepAlive = setInterval(() => res.write(': keepalive\n\n'), this.config.eventStreamKeepaliveMs ?? 15000);
+            this.logger.info(`📡 Event stream listener joined room ${room.id} (${room.listenerCount()} listening)`);
+            
+            req.on('close', () => {
+                clearInterval(keepAlive);
+                room.removeListener(listener);
+                this.logger.info(`📡 Event stream listener left room ${room.id}`);
+            });
+        });
+
+        // Everything below is an admin endpoint
+        const adminApiKeys = this.config.adminApiKeys || [];
+        if (adminApiKeys.length === 0) {
+            this.logger.warn('⚠️ No admin API keys configured - admin endpoints will reject every request');
+        }
+        const requireAdmin = createAdminAuth(adminApiKeys, this.logger);
+
+        // Get room status
+        this.app.get('/rooms/:roomId/status', requireAdmin, (req, res) => {
+            const room = this.rooms.get(req.params.roomId);
+            if (!room) {
+                return res.status(404).json({ error: 'Room not found' });
             }
             
             res.json(room.getStatus());
         });
 
         // Get all rooms status
-        this.app.get('/rooms', (req, res) => {
-            const roomsStatus = Array.from(rooms.values()).map(room => room.getStatus());
+        this.app.get('/rooms', requireAdmin, (req, res) => {
+            const roomsStatus = Array.from(this.rooms.values()).map(room => room.getStatus());
             res.json({
-                totalRooms: rooms.size,
+                totalRooms: this.rooms.size,
                 rooms: roomsStatus
             });
         });
 
-        // Force cleanup a room (admin endpoint)
-        this.app.delete('/rooms/:roomId', (req, res) => {
-            const room = rooms.get(req.params.roomId);
-            if (!room) {
-                return res.status(404).json({ error: 'Room not found' });
+        // Force cleanup a room
+        this.app.delete('/rooms/:roomId', requireAdmin, (req, res) => {
+            const room = this.rooms.get(req.params.roomId);
+            if (!room) {
+                return res.status(404).json({ error: 'Room not found' });
+            }
+            
+            this.logger.info(`🗑️ Force cleanup requested for room ${req.params.roomId} by ${res.locals.adminIdentity}`);
+            this.closeRoom(room, 1001, 'Room force cleanup');
+            
+            res.json({ 
+                message: `Room ${req.params.roomId} has been cleaned up`,
+                roomId: req.params.roomId
+            });
+        });
+
+        // List clients in a room
+        this.app.get('/rooms/:roomId/clients', requireAdmin, (req, res) => {
+            const room = this.rooms.get(req.params.roomId);
+            if (!room) {
+                return res.status(404).json({ error: 'Room not found' });
+            }
+            
+            res.json({
+                roomId: room.id,
+                clients: room.listClients()
+            });
+        });
+
+        // Kick a single client
+        this.app.delete('/rooms/:roomId/clients/:clientId', requireAdmin, (req, res) => {
+            const room = this.rooms.get(req.params.roomId);
+            if (!room) {
+                return res.status(404).json({ error: 'Room not found' });
+            }
+            
+            const reason = typeof req.body?.reason === 'string' ? req.body.reason : 'Kicked by operator';
+            if (!room.kickClient(req.params.clientId, reason)) {
+                return res.status(404).json({ error: 'Client not found' });
+            }
+            
+            this.logger.info(`👢 Client ${req.params.clientId} kicked from room ${room.id} by ${res.locals.adminIdentity}: ${reason}`);
+            res.json({
+                message: `Client ${req.params.clientId} has been kicked`,
+                roomId: room.id,
+                clientId: req.params.clientId
+            });
+        });
+
+        // Broadcast a system notice to a room
+        this.app.post('/rooms/:roomId/broadcast', requireAdmin, (req, res) => {
+            const room = this.rooms.get(req.params.roomId);
+            if (!room) {
+                return res.status(404).json({ error: 'Room not found' });
+            }
+            
+            const message = req.body?.message;
+            if (typeof message !== 'string' || message.length === 0) {
+                return res.status(400).json({ error: 'message must be a non-empty string' });
+            }
+            
+            room.broadcastNotice(message);
+            this.logger.info(`📢 System notice broadcast to room ${room.id} by ${res.locals.adminIdentity}: ${message}`);
+            res.json({ message: 'Notice broadcast', roomId: room.id });
+        });
+
+        // Force an upstream reconnect
+        this.app.post('/rooms/:roomId/reconnect', requireAdmin, async (req, res) => {
+            const room = this.rooms.get(req.params.roomId);
+            if (!room) {
+                return res.status(404).json({ error: 'Room not found' });
+            }
+            
+            this.logger.info(`🔄 Upstream reconnect for room ${room.id} requested by ${res.locals.adminIdentity}`);
+            try {
+                await room.forceReconnect();
+                res.json({ message: 'Reconnection started', roomId: room.id });
+            } catch (error) {
+                this.logger.error(`❌ Operator reconnect failed for room ${room.id}:`, error);
+                res.status(500).json({ error: 'Failed to reconnect to Yahoo' });
+            }
+        });
+
+        // Pause/resume relaying
+        this.app.post('/rooms/:roomId/pause', requireAdmin, (req, res) => {
+            const room = this.rooms.get(req.params.roomId);
+            if (!room) {
+                return res.status(404).json({ error: 'Room not found' });
+            }
+            
+            room.pauseRelay();
+            this.logger.info(`⏸️ Relaying for room ${room.id} paused by ${res.locals.adminIdentity}`);
+            res.json({ message: 'Relaying paused', roomId: room.id });
+        });
+
+        this.app.post('/rooms/:roomId/resume', requireAdmin, (req, res) => {
+            const room = this.rooms.get(req.params.roomId);
+            if (!room) {
+                return res.status(404).json({ error: 'Room not found' });
+            }
+            
+            room.resumeRelay();
+            this.logger.info(`▶️ Relaying for room ${room.id} resumed by ${res.locals.adminIdentity}`);
+            res.json({ message: 'Relaying resumed', roomId: room.id });
+        });
+
+        // Export a draft result: the live room's board, or the result saved when it closed
+        this.app.get('/drafts/:leagueId/export', requireAdmin, (req, res) => {
+            const format = (req.query.format || 'json') as DraftExportFormat;
+            if (!DRAFT_EXPORT_FORMATS.includes(format)) {
+                return res.status(400).json({ error: `format must be one of: ${DRAFT_EXPORT_FORMATS.join(', ')}` });
             }
             
-            this.logger.info(`🗑️ Force cleanup requested for room ${req.params.roomId}`);
+            const room = this.rooms.get(req.params.leagueId);
+            const result = room ? room.getDraftResult() : this.draftStore.load(req.params.leagueId);
+            if (!result) {
+                return res.status(404).json({ error: 'Draft not found' });
+            }
             
-            // Close all client connections in this room
-            room.clients.forEach((clientInfo, clientWs) => {
-                if (clientWs.readyState === WebSocket.OPEN) {
-                    clientWs.close(1001, 'Room force cleanup');
+            this.logger.info(`📤 Draft for league ${req.params.leagueId} exported as ${format} by ${res.locals.adminIdentity}`);
+            if (format === 'csv') {
+                res.attachment(`draft-${req.params.leagueId}.csv`);
+                res.type('text/csv').send(draftResultToCsv(result));
+            } else {
+                res.json(result);
+            }
+        });
+
+        // Webhook subscriptions
+        this.app.post('/webhooks', requireAdmin, async (req, res) => {
+            try {
+                const subscription = await this.webhooks.subscribe(req.body?.leagueId, req.body?.url, req.body?.events, req.body?.secret);
+                this.logger.info(`🪝 Webhook ${subscription.id} for league ${subscription.leagueId} registered by ${res.locals.adminIdentity}: ${subscription.url}`);
+                res.status(201).json(subscription);
+            } catch (error) {
+                if (error instanceof WebhookSubscriptionError) {
+                    return res.status(400).json({ error: error.message });
                 }
-            });
-            
-            // Cleanup the room
-            room.cleanup();
-            rooms.delete(req.params.roomId);
+                this.logger.error('❌ Failed to save webhook subscription:', error);
+                res.status(500).json({ error: 'Failed to save webhook subscription' });
+            }
+        });
+
+        this.app.get('/webhooks', requireAdmin, async (req, res) => {
+            const leagueId = typeof req.query.leagueId === 'string' ? req.query.leagueId : undefined;
+            try {
+                res.json({ subscriptions: await this.webhooks.list(leagueId) });
+            } catch (error) {
+                this.logger.error('❌ Failed to list webhook subscriptions:', error);
+                res.status(500).json({ error: 'Failed to list webhook subscriptions' });
+            }
+        });
+
+        this.app.get('/webhooks/dead-letters', requireAdmin, (req, res) => {
+            res.json({ deadLetters: this.webhooks.listDeadLetters() });
+        });
+
+        this.app.delete('/webhooks/:subscriptionId', requireAdmin, async (req, res) => {
+            let deleted: boolean;
+            try {
+                deleted = await this.webhooks.unsubscribe(req.params.subscriptionId);
+            } catch (error) {
+                this.logger.error(`❌ Failed to delete webhook ${req.params.subscriptionId}:`, error);
+                return res.status(500).json({ error: 'Failed to delete webhook subscription' });
+            }
+            if (!deleted) {
+                return res.status(404).json({ error: 'Webhook subscription not found' });
+            }
             
-            res.json({ 
-                message: `Room ${req.params.roomId} has been cleaned up`,
-                roomId: req.params.roomId
-            });
+            this.logger.info(`🪝 Webhook ${req.params.subscriptionId} deleted by ${res.locals.adminIdentity}`);
+            res.json({ message: 'Webhook subscription deleted', subscriptionId: req.params.subscriptionId });
         });
     }
 
@@ -496,138 +2394,788 @@ export class YahooWebSocketProxyApp {
         // WebSocket server for client connections
         this.wss = new WebSocketServer({ 
             server,
-            path: '/yahoo/websocket/connection'
+            path: '/yahoo/websocket/connection',
+            // Picks the first subprotocol the client offers that this server speaks. Clients fail a
+            // handshake that picks none, so when nothing offered is supported the first offer is
+            // accepted and the connection is then closed with UnsupportedProtocol.
+            handleProtocols: (protocols: Set<string>) => {
+                const offers = Array.from(protocols);
+                return offers.find(protocol => {
+                    const offered = parseSubprotocol(protocol);
+                    return !!offered && isSupportedProtocolVersion(offered.version);
+                }) ?? offers[0];
+            },
+            perMessageDeflate: this.config.perMessageDeflate ? { threshold: this.config.perMessageDeflateThresholdBytes ?? 1024 } : false
         });
 
         this.wss.on('connection', (ws: WebSocket, request: IncomingMessage) => {
-            const url = new URL(request.url!, `http://${request.headers.host}`);
-            const params = url.searchParams;
-            
-            const leagueId = params.get('leagueId');
-            const draftPosition = parseInt(params.get('draftPosition') || '0');
-            const yahooWebSocketUrl = params.get('websocketUrl');
-            const platformUserId = params.get('platformUserId') || 'unknown';
-            const auth = params.get('auth') || undefined;
-            
-            if (!leagueId || !draftPosition || !yahooWebSocketUrl) {
-                ws.close(1008, 'Missing required parameters: leagueId, draftPosition, websocketUrl');
+            withSpan('client.connect', {}, (span) => this.handleClientConnection(ws, request, span)).catch(error => {
+                this.logger.error('❌ Failed to handle client connection:', error);
+            });
+        });
+
+        this.logger.info(`📡 WebSocket server setup on path: /yahoo/websocket/connection`);
+    }
+
+    private async handleClientConnection(ws: WebSocket, request: IncomingMessage, span: Span): Promise<void> {
+        const url = new URL(request.url!, `http://${request.headers.host}`);
+        const params = url.searchParams;
+        
+        const protocol = this.negotiateProtocol(ws, params);
+        if (!protocol) {
+            span.setAttribute('client.rejected', true);
+            return;
+        }
+        
+        // Counted before the join is checked so sockets that never join still count
+        if (!this.trackClientAddress(ws, request, protocol.encoding)) {
+            span.setAttribute('client.rejected', true);
+            return;
+        }
+        
+        const joinRequest = this.resolveJoinRequest(ws, params);
+        if (!joinRequest) {
+            span.setAttribute('client.rejected', true);
+            return;
+        }
+        
+        const { leagueId, draftPosition, yahooWebSocketUrl } = joinRequest;
+        span.setAttributes(leagueAttributes(leagueId, draftPosition));
+        
+        // Checked before the room lookup so both room creation and recreation are covered
+        if (this.config.upstreamPolicy) {
+            try {
+                checkUpstreamUrl(yahooWebSocketUrl, this.config.upstreamPolicy);
+            } catch (error) {
+                if (!(error instanceof UpstreamRefusedError)) {
+                    throw error;
+                }
+                this.logger.warn(`🚫 Rejected client for league ${leagueId}: ${error.message}`);
+                metrics.clientRejections.inc({ reason: 'upstream_not_allowed' });
+                ws.close(CloseCode.UpstreamNotAllowed, 'Upstream URL not allowed');
+                span.setAttribute('client.rejected', true);
                 return;
             }
+        }
+        
+        // A draining server only serves the rooms it already has
+        if (this.draining && !this.rooms.has(leagueId)) {
+            this.logger.warn(`🚫 Rejected client for league ${leagueId}: server is draining`);
+            metrics.clientRejections.inc({ reason: 'draining' });
+            ws.close(CloseCode.ServerDraining, 'Server is restarting');
+            span.setAttribute('client.rejected', true);
+            return;
+        }
+        
+        const lastSeq = parseIntegerParam(params.get('lastSeq'));
+        if (params.has('lastSeq') && lastSeq === null) {
+            metrics.clientRejections.inc({ reason: 'invalid_params' });
+            ws.close(1008, 'Invalid lastSeq: expected a non-negative integer');
+            span.setAttribute('client.rejected', true);
+            return;
+        }
+        
+        const join: ClientJoin = {
+            ...joinRequest,
+            draftEvents: params.get('draftEvents') === 'true',
+            protocol,
+            resumeToken: params.get('resumeToken'),
+            lastSeq
+        };
+        const connectionId = uuidv4();
+        
+        span.setAttributes({ 'client.id': connectionId, 'client.role': joinRequest.role, 'client.encoding': protocol.encoding });
+        this.logger.info(`🔗 New client connection for room ${leagueId}, client: ${connectionId}, draft position: ${draftPosition}`);
+        
+        ws.on('error', (error: Error) => {
+            this.logger.error(`❌ Client WebSocket error for ${connectionId}:`, error);
+        });
+        
+        // Frames that arrive while the league's owner is looked up are handled once it is known
+        const pendingFrames: string[] = [];
+        const holdFrame = (data: WebSocket.RawData, isBinary: boolean) => {
+            const message = this.clientFrameText(ws, connectionId, data, isBinary, protocol);
+            if (message !== null) {
+                pendingFrames.push(message);
+            }
+        };
+        ws.on('message', holdFrame);
+        
+        let ownerNodeId: string;
+        try {
+            ownerNodeId = await this.roomRegistry.acquire(leagueId);
+        } catch (error) {
+            this.logger.error(`❌ Room registry lookup failed for league ${leagueId}:`, error);
+            metrics.clientRejections.inc({ reason: 'registry_unavailable' });
+            ws.close(1011, 'Room registry unavailable');
+            span.setAttribute('client.rejected', true);
+            return;
+        } finally {
+            ws.off('message', holdFrame);
+        }
+        
+        if (ws.readyState !== WebSocket.OPEN) {
+            // The client left during the lookup
+            if (ownerNodeId === this.roomRegistry.nodeId) {
+                this.releaseUnusedLease(leagueId);
+            }
+            return;
+        }
+        
+        if (ownerNodeId !== this.roomRegistry.nodeId) {
+            span.setAttribute('client.relayed_to', ownerNodeId);
+            this.relayClient(ws, connectionId, ownerNodeId, join, pendingFrames);
+            return;
+        }
+        
+        if (!this.admitClient(ws, leagueId, protocol.encoding)) {
+            this.releaseUnusedLease(leagueId);
+            span.setAttribute('client.rejected', true);
+            return;
+        }
+        
+        const attached = this.attachClient(ws, connectionId, join);
+        if (!attached) {
+            this.releaseUnusedLease(leagueId);
+            span.setAttribute('client.rejected', true);
+            return;
+        }
+        
+        const { room, clientId } = attached;
+        ws.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+            const message = this.clientFrameText(ws, clientId, data, isBinary, protocol);
+            if (message !== null) {
+                this.handleClientMessage(room, ws, clientId, message, protocol);
+            }
+        });
+        ws.on('close', (code: number, reason: Buffer) => this.handleClientClose(room, ws, clientId, code, reason.toString()));
+        pendingFrames.forEach(message => this.handleClientMessage(room, ws, clientId, message, protocol));
+    }
 
-            const clientId = uuidv4();
-            const roomId = leagueId; // Room ID is just the league ID
-            
-            this.logger.info(`🔗 New client connection for room ${roomId}, client: ${clientId}, draft position: ${draftPosition}`);
-            
-            // Get or create room
-            let room = rooms.get(roomId);
-            if (!room) {
-                room = new Room(
-                    leagueId, 
-                    draftPosition, // Use this client's draft position for Yahoo connection
-                    yahooWebSocketUrl,
-                    platformUserId, // Pass platform user ID for join message
-                    this.logger,
-                    this.config.maxReconnectAttempts || 5,
-                    this.config.connectionTimeout || 10000,
-                    auth
-                );
-                rooms.set(roomId, room);
+    // Settles the protocol version and encoding from the subprotocol the server picked, or else
+    // from the protocolVersion and encoding query params. Clients that choose nothing get the
+    // current version with the JSON encoding. Closes the socket and returns null for anything
+    // this server does not speak.
+    private negotiateProtocol(ws: WebSocket, params: URLSearchParams): ClientProtocol | null {
+        const subprotocol = ws.protocol ? parseSubprotocol(ws.protocol) : null;
+        const version = ws.protocol ? subprotocol?.version ?? null : parseIntegerParam(params.get('protocolVersion') ?? String(CLIENT_PROTOCOL_VERSION));
+        const encoding = subprotocol ? subprotocol.encoding : (params.get('encoding') || ClientEncoding.Json) as ClientEncoding;
+        if (version === null || !isSupportedProtocolVersion(version) || !CLIENT_ENCODINGS.includes(encoding)) {
+            const offered = ws.protocol ? `subprotocol ${ws.protocol}` : `version ${params.get('protocolVersion')}, encoding ${params.get('encoding')}`;
+            this.logger.warn(`🚫 Rejected client with unsupported protocol: ${offered}`);
+            metrics.clientRejections.inc({ reason: 'unsupported_protocol' });
+            ws.close(CloseCode.UnsupportedProtocol, `Unsupported protocol; this server speaks version ${CLIENT_PROTOCOL_VERSION} with encodings ${CLIENT_ENCODINGS.join(', ')}`);
+            return null;
+        }
+        return { version, encoding, rawFrames: params.get('rawFrames') === 'true' };
+    }
+
+    // The text of a client frame. MessagePack clients may send binary frames, which are decoded
+    // to JSON on the node the client is connected to. Returns null after replying with an error.
+    private clientFrameText(ws: ClientSocket, clientId: string, data: WebSocket.RawData, isBinary: boolean, protocol: ClientProtocol): string | null {
+        if (!isBinary || protocol.encoding !== ClientEncoding.MessagePack) {
+            return data.toString();
+        }
+        try {
+            return decodeMessagePackFrame(Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data));
+        } catch {
+            this.sendClientError(ws, clientId, new ClientMessageError('malformed_msgpack', 'Binary frame is not valid MessagePack'), protocol.encoding);
+            return null;
+        }
+    }
+
+    // The client's address, taken from the last X-Forwarded-For entry (added by the proxy in
+    // front of this one) when TRUST_PROXY is set
+    private clientAddress(request: IncomingMessage): string {
+        const forwardedFor = request.headers['x-forwarded-for'];
+        if (this.config.trustProxy && typeof forwardedFor === 'string') {
+            const addresses = forwardedFor.split(',').map(address => address.trim()).filter(address => address.length > 0);
+            if (addresses.length > 0) {
+                return addresses[addresses.length - 1];
+            }
+        }
+        return request.socket.remoteAddress || 'unknown';
+    }
+
+    // Counts the socket against its address until it closes. Closes the socket and returns
+    // false when the address already has the maximum number of sockets open on this node.
+    private trackClientAddress(ws: WebSocket, request: IncomingMessage, encoding: ClientEncoding): boolean {
+        const address = this.clientAddress(request);
+        const open = this.connectionsPerIp.get(address) || 0;
+        const limit = this.config.maxConnectionsPerIp;
+        if (limit && open >= limit) {
+            this.rejectOverLimit(ws, 'connections_per_ip', CloseCode.TooManyConnections, 'Too many connections', `Too many connections from ${address} (limit ${limit})`, encoding);
+            return false;
+        }
+        
+        this.connectionsPerIp.set(address, open + 1);
+        ws.on('close', () => {
+            const remaining = (this.connectionsPerIp.get(address) || 1) - 1;
+            if (remaining > 0) {
+                this.connectionsPerIp.set(address, remaining);
             } else {
-                // If room exists but has a different websocket URL, we should recreate it
-                // This handles cases where the Yahoo websocket URL might have changed
-                if (room.yahooWebSocketUrl !== yahooWebSocketUrl) {
-                    this.logger.info(`🔄 Room ${roomId} exists but with different Yahoo URL, recreating room`);
-                    room.cleanup();
-                    room = new Room(
-                        leagueId, 
-                        draftPosition,
-                        yahooWebSocketUrl,
-                        platformUserId,
-                        this.logger,
-                        this.config.maxReconnectAttempts || 5,
-                        this.config.connectionTimeout || 10000,
-                        auth
-                    );
-                    rooms.set(roomId, room);
+                this.connectionsPerIp.delete(address);
+            }
+        });
+        return true;
+    }
+
+    // Applies the per-league connection limit and the room cap, which are enforced by the node
+    // owning the league so relayed clients count too. Closes the socket and returns false when
+    // the client is refused.
+    private admitClient(ws: ClientSocket, leagueId: string, encoding: ClientEncoding): boolean {
+        const room = this.rooms.get(leagueId);
+        const { maxConnectionsPerLeague } = this.roomSettings(leagueId);
+        const { maxRooms } = this.config;
+        if (room && maxConnectionsPerLeague && room.clients.size >= maxConnectionsPerLeague) {
+            this.rejectOverLimit(ws, 'connections_per_league', CloseCode.TooManyConnections, 'Too many connections', `League ${leagueId} has reached its limit of ${maxConnectionsPerLeague} connections`, encoding);
+            return false;
+        }
+        if (!room && maxRooms && this.rooms.size >= maxRooms) {
+            this.rejectOverLimit(ws, 'rooms', CloseCode.RoomLimitReached, 'Room limit reached', `Room limit of ${maxRooms} reached`, encoding);
+            return false;
+        }
+        return true;
+    }
+
+    // Acquiring the league for a client claims it for this node. Gives the lease up again when
+    // the client does not join and no room on this node holds it.
+    private releaseUnusedLease(leagueId: string): void {
+        if (this.rooms.has(leagueId)) {
+            return;
+        }
+        this.roomRegistry.release(leagueId).catch(error => {
+            this.logger.error(`❌ Failed to release lease on league ${leagueId}:`, error);
+        });
+    }
+
+    private rejectOverLimit(ws: ClientSocket, limit: LimitKind, code: number, reason: string, message: string, encoding: ClientEncoding): void {
+        this.logger.warn(`🚫 Rejected client: ${message}`);
+        metrics.clientRejections.inc({ reason: limit });
+        if (ws.readyState === WebSocket.OPEN) {
+            ws.send(encodeClientMessage({ type: 'limit_exceeded', limit, message } as ProxyMessage, encoding));
+        }
+        ws.close(code, reason);
+    }
+
+    // Adds a client to the league's room on this node, creating the room if needed. Returns the
+    // client's ID in the room, which is the resumed session's ID when a session is resumed, or
+    // null after closing the client when the room could not be created.
+    private attachClient(ws: ClientSocket, connectionId: string, join: ClientJoin): { room: Room; clientId: string } | null {
+        const { leagueId, yahooWebSocketUrl, draftPosition } = join;
+        const roomId = leagueId; // Room ID is just the league ID
+        
+        // Get or create room
+        let room = this.rooms.get(roomId);
+        if (room && room.yahooWebSocketUrl !== yahooWebSocketUrl) {
+            // If room exists but has a different websocket URL, we should recreate it
+            // This handles cases where the Yahoo websocket URL might have changed
+            this.logger.info(`🔄 Room ${roomId} exists but with different Yahoo URL, recreating room`);
+            room.cleanup();
+            this.rooms.delete(roomId);
+            room = undefined;
+        }
+        if (!room) {
+            try {
+                room = this.createRoom(leagueId, yahooWebSocketUrl, draftPosition);
+            } catch (error) {
+                // e.g. the recording directory could not be created
+                this.logger.error(`❌ Failed to create room ${roomId}:`, error);
+                metrics.clientRejections.inc({ reason: 'room_unavailable' });
+                ws.close(1011, 'Room could not be created');
+                return null;
+            }
+            this.rooms.set(roomId, room);
+        }
+        
+        // Resume the previous session if the client presented one, otherwise add client
+        // to room with their specific draft position
+        const encoding = join.protocol.encoding;
+        const resumedClientId = join.resumeToken && join.lastSeq !== null ? room.resumeClient(ws, join.resumeToken, join.lastSeq, join, encoding) : null;
+        const clientId = resumedClientId || connectionId;
+        if (!resumedClientId) {
+            room.addClient(ws, clientId, draftPosition, join.draftEvents, join.platformUserId, join.auth, join.role, encoding);
+        }
+        this.clientConnections.set(clientId, { ws, room });
+        return { room, clientId };
+    }
+
+    private handleClientMessage(room: Room, ws: ClientSocket, clientId: string, message: string, protocol: ClientProtocol): void {
+        try {
+            room.trackClientFrame(clientId, message);
+            this.logger.debug(`📨 Client message from ${clientId}:`, message);
+            
+            // Yahoo frames never start with '{', so anything else is a raw frame for clients that opted in
+            if (!message.trimStart().startsWith('{')) {
+                if (!protocol.rawFrames) {
+                    throw new ClientMessageError('raw_frames_disabled', 'Raw Yahoo frames are only accepted from clients connected with rawFrames=true; wrap them in a yahoo_message');
                 }
+                room.sendToYahoo(ws, message);
+                return;
             }
             
-            // Add client to room with their specific draft position
-            room.addClient(ws, clientId, draftPosition);
-            clientConnections.set(clientId, { ws, room });
+            const clientMessage = parseClientMessage(message, protocol.version);
+            switch (clientMessage.type) {
+                case 'yahoo_message':
+                    // Client wants to send a message to Yahoo
+                    room.sendToYahoo(ws, clientMessage.data, clientMessage.requestId);
+                    break;
+                case 'yahoo_reconnect':
+                    // Client wants to reconnect to Yahoo
+                    this.logger.info(`🔄 Client ${clientId} requested Yahoo reconnection:`, clientMessage.data);
+                    room.handleClientReconnectRequest(ws, clientMessage.data).catch(error => {
+                        this.logger.error(`❌ Failed to handle client reconnection for ${clientId}:`, error);
+                        ws.send(encodeClientMessage({
+                            type: 'yahoo_error',
+                            error: 'Failed to reconnect to Yahoo'
+                        } as ProxyMessage, protocol.encoding));
+                    });
+                    break;
+                case 'autopick':
+                    // Client uploads its ranked queue or turns autopick on or off
+                    room.configureAutopick(ws, clientMessage.data);
+                    break;
+                case 'upstream_status':
+                    room.requestUpstreamStatus(ws);
+                    break;
+            }
+        } catch (error) {
+            if (error instanceof ClientMessageError) {
+                this.sendClientError(ws, clientId, error, protocol.encoding);
+                return;
+            }
+            this.logger.error(`❌ Error handling client message from ${clientId}:`, error);
+        }
+    }
 
-            // Handle messages from client
-            ws.on('message', (data: WebSocket.RawData) => {
-                try {
-                    const message = data.toString();
-                    this.logger.debug(`📨 Client message from ${clientId}:`, message);
-                    
-                    // Check if it's a JSON control message or raw Yahoo message
-                    try {
-                        const jsonMessage: ClientMessage = JSON.parse(message);
-                        if (jsonMessage.type === 'yahoo_message') {
-                            // Client wants to send a message to Yahoo
-                            room!.sendToYahoo(jsonMessage.data as string);
-                        } else if (jsonMessage.type === 'yahoo_reconnect') {
-                            // Client wants to reconnect to Yahoo
-                            const reconnectData = jsonMessage.data as ReconnectData;
-                            this.logger.info(`🔄 Client ${clientId} requested Yahoo reconnection:`, reconnectData);
-                            
-                            room!.handleClientReconnectRequest(reconnectData).catch(error => {
-                                this.logger.error(`❌ Failed to handle client reconnection for ${clientId}:`, error);
-                                ws.send(JSON.stringify({
-                                    type: 'yahoo_error',
-                                    error: 'Failed to reconnect to Yahoo'
-                                }));
-                            });
-                        } else {
-                            this.logger.debug(`🎛️ Control message from client ${clientId}:`, jsonMessage);
-                        }
-                    } catch {
-                        // Not JSON, treat as raw Yahoo message
-                        room!.sendToYahoo(message);
-                    }
-                } catch (error) {
-                    this.logger.error(`❌ Error handling client message from ${clientId}:`, error);
-                }
-            });
+    private sendClientError(ws: ClientSocket, clientId: string, error: ClientMessageError, encoding: ClientEncoding): void {
+        this.logger.warn(`⚠️ Invalid message from client ${clientId}: ${error.code} - ${error.message}`);
+        metrics.clientMessageErrors.inc({ code: error.code });
+        if (ws.readyState !== WebSocket.OPEN) {
+            return;
+        }
+        ws.send(encodeClientMessage({
+            type: 'error',
+            code: error.code,
+            message: error.message,
+            field: error.field,
+            requestId: error.requestId
+        } as ProxyMessage, encoding));
+    }
 
-            ws.on('close', (code: number, reason: Buffer) => {
-                this.logger.info(`🔌 Client ${clientId} disconnected: ${code} - ${reason.toString()}`);
-                room!.removeClient(ws);
-                clientConnections.delete(clientId);
-            });
+    private handleClientClose(room: Room, ws: ClientSocket, clientId: string, code: number, reason: string): void {
+        this.logger.info(`🔌 Client ${clientId} disconnected: ${code} - ${reason}`);
+        room.removeClient(ws);
+        // A resumed session may already have registered a newer socket under this ID
+        if (this.clientConnections.get(clientId)?.ws === ws) {
+            this.clientConnections.delete(clientId);
+        }
+    }
 
-            ws.on('error', (error: Error) => {
-                this.logger.error(`❌ Client WebSocket error for ${clientId}:`, error);
+    // Forwards a client whose league is owned by another node to that node
+    private relayClient(ws: WebSocket, connectionId: string, ownerNodeId: string, join: ClientJoin, pendingFrames: string[]): void {
+        this.logger.info(`🔀 Relaying client ${connectionId} for league ${join.leagueId} to node ${ownerNodeId}`);
+        this.relayedClients.set(connectionId, { ws, leagueId: join.leagueId, ownerNodeId, encoding: join.protocol.encoding });
+        
+        const forward = (message: NodeMessage) => {
+            this.roomRegistry.send(ownerNodeId, message).catch(error => {
+                this.logger.error(`❌ Failed to forward ${message.type} for client ${connectionId} to node ${ownerNodeId}:`, error);
             });
+        };
+        forward({ type: 'client.join', clientId: connectionId, join });
+        pendingFrames.forEach(data => forward({ type: 'client.frame', clientId: connectionId, data }));
+        
+        ws.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+            const message = this.clientFrameText(ws, connectionId, data, isBinary, join.protocol);
+            if (message !== null) {
+                forward({ type: 'client.frame', clientId: connectionId, data: message });
+            }
+        });
+        ws.on('close', (code: number, reason: Buffer) => {
+            this.logger.info(`🔌 Relayed client ${connectionId} disconnected: ${code} - ${reason.toString()}`);
+            this.relayedClients.delete(connectionId);
+            forward({ type: 'client.close', clientId: connectionId, code, reason: reason.toString() });
         });
+    }
 
-        this.logger.info(`📡 WebSocket server setup on path: /yahoo/websocket/connection`);
+    private handleNodeMessage(fromNodeId: string, message: NodeMessage): void {
+        const remoteKey = `${fromNodeId}/${message.clientId}`;
+        switch (message.type) {
+            case 'client.join':
+                this.attachRemoteClient(fromNodeId, message.clientId, message.join);
+                break;
+            case 'client.frame': {
+                const remote = this.remoteClients.get(remoteKey);
+                if (remote) {
+                    this.handleClientMessage(remote.room, remote.socket, remote.clientId, message.data, remote.protocol);
+                }
+                break;
+            }
+            case 'client.close': {
+                const remote = this.remoteClients.get(remoteKey);
+                if (remote) {
+                    this.remoteClients.delete(remoteKey);
+                    remote.socket.markClosed();
+                    this.handleClientClose(remote.room, remote.socket, remote.clientId, message.code, message.reason);
+                }
+                break;
+            }
+            case 'server.send': {
+                const relayed = this.relayedClients.get(message.clientId);
+                if (!relayed || relayed.ws.readyState !== WebSocket.OPEN) {
+                    break;
+                }
+                // The owner cannot see this buffer, so only the hard limit applies to relayed clients
+                if (relayed.ws.bufferedAmount > this.roomSettings(relayed.leagueId).clientBufferHardLimitBytes) {
+                    this.logger.warn(`🐢 Disconnecting slow relayed client ${message.clientId} with ${relayed.ws.bufferedAmount} bytes buffered`);
+                    metrics.slowClientDisconnects.inc();
+                    relayed.ws.close(CloseCode.SlowConsumer, 'Client too slow; reconnect and resume');
+                    break;
+                }
+                relayed.ws.send(transcodeClientPayload(message.data, relayed.encoding));
+                break;
+            }
+            case 'server.close':
+                this.relayedClients.get(message.clientId)?.ws.close(message.code, message.reason);
+                break;
+        }
+    }
+
+    // A client relayed from another node joins a room owned by this node
+    private attachRemoteClient(fromNodeId: string, connectionId: string, join: ClientJoin): void {
+        const socket = new RemoteClientSocket(this.roomRegistry, fromNodeId, connectionId, this.logger);
+        if (this.draining && !this.rooms.has(join.leagueId)) {
+            this.logger.warn(`🚫 Rejected relayed client for league ${join.leagueId}: server is draining`);
+            metrics.clientRejections.inc({ reason: 'draining' });
+            socket.close(CloseCode.ServerDraining, 'Server is restarting');
+            return;
+        }
+        
+        if (!this.admitClient(socket, join.leagueId, ClientEncoding.Json)) {
+            this.releaseUnusedLease(join.leagueId);
+            return;
+        }
+        
+        this.logger.info(`🔀 Client ${connectionId} for room ${join.leagueId} relayed from node ${fromNodeId}, draft position: ${join.draftPosition}`);
+        // The relaying node encodes for the client, so the room sends it JSON
+        const protocol = { ...join.protocol, encoding: ClientEncoding.Json };
+        const attached = this.attachClient(socket, connectionId, { ...join, protocol });
+        if (!attached) {
+            this.releaseUnusedLease(join.leagueId);
+            return;
+        }
+        const { room, clientId } = attached;
+        this.remoteClients.set(`${fromNodeId}/${connectionId}`, { socket, room, clientId, protocol });
+    }
+
+    // Renews the leases of the rooms this node owns and checks relayed leagues still have the
+    // same owner. Clients of a league that changed hands are closed so they rejoin the new owner.
+    private async checkLeases(): Promise<void> {
+        for (const room of Array.from(this.rooms.values())) {
+            const ownerNodeId = await this.roomRegistry.acquire(room.leagueId);
+            if (ownerNodeId !== this.roomRegistry.nodeId && this.rooms.get(room.id) === room) {
+                this.logger.warn(`⚠️ Lease on league ${room.leagueId} was taken by node ${ownerNodeId}, closing room`);
+                this.closeRoom(room, CloseCode.RoomMoved, 'Room moved to another node');
+            }
+        }
+        
+        const owners = new Map<string, string | null>(); // Map<leagueId, ownerNodeId>
+        for (const [connectionId, relayed] of Array.from(this.relayedClients.entries())) {
+            if (!owners.has(relayed.leagueId)) {
+                owners.set(relayed.leagueId, await this.roomRegistry.ownerOf(relayed.leagueId));
+            }
+            if (owners.get(relayed.leagueId) !== relayed.ownerNodeId) {
+                this.logger.warn(`⚠️ League ${relayed.leagueId} is no longer owned by node ${relayed.ownerNodeId}, closing relayed client ${connectionId}`);
+                relayed.ws.close(CloseCode.RoomMoved, 'Room moved to another node');
+            }
+        }
+    }
+
+    // Closes the room's clients, cleans it up and gives up its lease
+    private closeRoom(room: Room, code: number, reason: string): void {
+        room.clients.forEach((clientInfo, clientWs) => {
+            if (clientWs.readyState === WebSocket.OPEN) {
+                clientWs.close(code, reason);
+            }
+        });
+        room.cleanup();
+        this.removeRoom(room);
+    }
+
+    private removeRoom(room: Room): void {
+        if (this.rooms.get(room.id) !== room) {
+            return;
+        }
+        this.rooms.delete(room.id);
+        this.roomRegistry.release(room.leagueId).catch(error => {
+            this.logger.error(`❌ Failed to release lease on league ${room.leagueId}:`, error);
+        });
+    }
+
+    // The defaults, overridden by the configured room settings and then by the league's own
+    private roomSettings(leagueId: string): RoomSettings {
+        return { ...DEFAULT_ROOM_SETTINGS, ...this.config.room, ...this.config.leagues?.[leagueId] };
+    }
+
+    private createRoom(leagueId: string, yahooWebSocketUrl: string, draftPosition?: number): Room {
+        return withSpan('room.create', leagueAttributes(leagueId, draftPosition), () => {
+            otelMetrics.roomsCreated.add(1);
+            return new Room(
+                leagueId,
+                yahooWebSocketUrl,
+                this.logger,
+                this.roomSettings(leagueId),
+                this.upstreamLookup,
+                this.config.recordingDir ? createSessionRecorder(this.config.recordingDir, leagueId, this.logger) : undefined,
+                this.webhooks,
+                this.draftStore,
+                room => this.removeRoom(room)
+            );
+        });
+    }
+
+    // Determines who the client is and where the room connects upstream. With a join token secret
+    // configured, a signed `token` param is required unless unsigned joins are allowed; the
+    // unsigned mode reads everything from query params. Closes the socket and returns null on failure.
+    private resolveJoinRequest(ws: WebSocket, params: URLSearchParams): JoinRequest | null {
+        const token = params.get('token');
+        
+        if (token && this.config.joinTokenSecret) {
+            try {
+                const claims = verifyJoinToken(token, this.config.joinTokenSecret);
+                const requestedUrl = params.get('websocketUrl');
+                if (requestedUrl && requestedUrl !== claims.websocketUrl) {
+                    this.logger.warn(`🚫 Rejected client for league ${claims.leagueId}: websocketUrl does not match join token`);
+                    metrics.clientRejections.inc({ reason: 'upstream_url_mismatch' });
+                    ws.close(CloseCode.UpstreamUrlMismatch, 'websocketUrl does not match join token');
+                    return null;
+                }
+                
+                return {
+                    leagueId: claims.leagueId,
+                    draftPosition: claims.draftPosition,
+                    yahooWebSocketUrl: claims.websocketUrl,
+                    platformUserId: claims.platformUserId || 'unknown',
+                    auth: claims.auth,
+                    role: claims.role || 'owner'
+                };
+            } catch (error) {
+                if (!(error instanceof JoinTokenError)) {
+                    throw error;
+                }
+                this.logger.warn(`🚫 Rejected client with ${error.reason} join token: ${error.message}`);
+                metrics.clientRejections.inc({ reason: `${error.reason}_token` });
+                ws.close(error.reason === 'expired' ? CloseCode.ExpiredJoinToken : CloseCode.InvalidJoinToken, error.message);
+                return null;
+            }
+        }
+        
+        if (!this.config.allowUnsignedJoin) {
+            this.logger.warn(`🚫 Rejected client without a join token`);
+            metrics.clientRejections.inc({ reason: 'missing_token' });
+            ws.close(CloseCode.MissingJoinToken, 'Missing join token');
+            return null;
+        }
+        
+        const leagueId = params.get('leagueId');
+        const draftPosition = parseIntegerParam(params.get('draftPosition'));
+        const yahooWebSocketUrl = params.get('websocketUrl');
+        
+        if (!leagueId || !params.get('draftPosition') || !yahooWebSocketUrl) {
+            metrics.clientRejections.inc({ reason: 'missing_params' });
+            ws.close(1008, 'Missing required parameters: leagueId, draftPosition, websocketUrl');
+            return null;
+        }
+        
+        if (!isValidLeagueId(leagueId) || !isValidDraftPosition(draftPosition)) {
+            this.logger.warn(`🚫 Rejected client with invalid join params: leagueId ${leagueId}, draftPosition ${params.get('draftPosition')}`);
+            metrics.clientRejections.inc({ reason: 'invalid_params' });
+            ws.close(1008, !isValidLeagueId(leagueId) ? 'Invalid leagueId' : `Invalid draftPosition: expected an integer from 1 to ${MAX_DRAFT_POSITION}`);
+            return null;
+        }
+        
+        const role = (params.get('role') || 'owner') as ClientRole;
+        if (!CLIENT_ROLES.includes(role)) {
+            metrics.clientRejections.inc({ reason: 'invalid_role' });
+            ws.close(1008, `Invalid role: expected one of ${CLIENT_ROLES.join(', ')}`);
+            return null;
+        }
+        
+        return {
+            leagueId,
+            draftPosition,
+            yahooWebSocketUrl,
+            platformUserId: params.get('platformUserId') || 'unknown',
+            auth: params.get('auth') || undefined,
+            role
+        };
+    }
+
+    // Read-only HTTP consumers are authorized like WebSocket clients: a join token for the room's
+    // league, which EventSource can only send as the `token` query param, or nothing when unsigned
+    // joins are allowed. Sends the error response and returns null on failure.
+    private authorizeRoomReader(req: express.Request, res: express.Response): Room | null {
+        const token = typeof req.query.token === 'string' ? req.query.token : null;
+        
+        if (token && this.config.joinTokenSecret) {
+            try {
+                const claims = verifyJoinToken(token, this.config.joinTokenSecret);
+                if (claims.leagueId !== req.params.roomId) {
+                    this.logger.warn(`🚫 Rejected ${req.path} request: join token is for league ${claims.leagueId}`);
+                    res.status(403).json({ error: 'Join token is for a different league' });
+                    return null;
+                }
+            } catch (error) {
+                if (!(error instanceof JoinTokenError)) {
+                    throw error;
+                }
+                this.logger.warn(`🚫 Rejected ${req.path} request with ${error.reason} join token: ${error.message}`);
+                res.status(401).json({ error: error.message });
+                return null;
+            }
+        } else if (!this.config.allowUnsignedJoin) {
+            this.logger.warn(`🚫 Rejected ${req.path} request without a join token`);
+            res.status(401).json({ error: 'Missing join token' });
+            return null;
+        }
+        
+        const room = this.rooms.get(req.params.roomId);
+        if (!room) {
+            res.status(404).json({ error: 'Room not found' });
+            return null;
+        }
+        return room;
     }
 
     public get requestListener() {
         return this.app;
     }
 
+    // Recreates the rooms saved by the previous process on shutdown. Rooms whose upstream URL the
+    // current policy refuses, or whose league another node has claimed meanwhile, are dropped.
+    public async restoreState(): Promise<void> {
+        if (!this.config.stateFile) {
+            return;
+        }
+        const state = takeState(this.config.stateFile, this.logger);
+        if (!state) {
+            return;
+        }
+        
+        for (const persisted of state.rooms) {
+            if (this.config.upstreamPolicy) {
+                try {
+                    checkUpstreamUrl(persisted.yahooWebSocketUrl, this.config.upstreamPolicy);
+                } catch (error) {
+                    if (!(error instanceof UpstreamRefusedError)) {
+                        throw error;
+                    }
+                    this.logger.warn(`🚫 Not restoring room ${persisted.leagueId}: ${error.message}`);
+                    continue;
+                }
+            }
+            
+            let ownerNodeId: string;
+            try {
+                ownerNodeId = await this.roomRegistry.acquire(persisted.leagueId);
+            } catch (error) {
+                this.logger.error(`❌ Not restoring room ${persisted.leagueId}: room registry lookup failed:`, error);
+                continue;
+            }
+            if (ownerNodeId !== this.roomRegistry.nodeId) {
+                this.logger.warn(`🚫 Not restoring room ${persisted.leagueId}: league is owned by node ${ownerNodeId}`);
+                continue;
+            }
+            
+            const room = this.createRoom(persisted.leagueId, persisted.yahooWebSocketUrl);
+            room.restoreState(persisted, this.config.restoredRoomTtlMs ?? 120000);
+            this.rooms.set(room.id, room);
+        }
+        this.logger.info(`♻️ Restored ${this.rooms.size} rooms saved ${Math.round((Date.now() - state.savedAt) / 1000)}s ago`);
+    }
+
+    // Applies reloaded settings. Only room settings and the connection limits take effect without a
+    // restart; open rooms pick up their new room settings, except the upstream mode.
+    public reloadConfig(next: Config): void {
+        this.config = {
+            ...this.config,
+            room: next.room,
+            leagues: next.leagues,
+            maxConnectionsPerIp: next.maxConnectionsPerIp,
+            maxRooms: next.maxRooms
+        };
+        for (const room of this.rooms.values()) {
+            room.updateSettings(this.roomSettings(room.leagueId));
+        }
+        this.warnOnSharedAddressLimit();
+        this.logger.info(`🔧 Reloaded configuration for ${this.rooms.size} open rooms`);
+    }
+    
+    // Without TRUST_PROXY every client behind a load balancer has the balancer's address, so a
+    // per-IP limit caps all of them together
+    private warnOnSharedAddressLimit(): void {
+        if (this.config.maxConnectionsPerIp && !this.config.trustProxy) {
+            this.logger.warn(`⚠️ MAX_CONNECTIONS_PER_IP=${this.config.maxConnectionsPerIp} counts socket addresses; behind a load balancer set TRUST_PROXY=true or every client shares one limit`);
+        }
+    }
+
+    // Prepares for shutdown: stops creating rooms, tells clients a restart is coming and when to
+    // reconnect, then waits until picks sent to Yahoo have been echoed back, for at most the drain timeout
+    public async drain(): Promise<void> {
+        this.draining = true;
+        const reconnectDelayMs = this.config.drainReconnectDelayMs ?? 5000;
+        const deadline = Date.now() + (this.config.drainTimeoutMs ?? 10000);
+        const pollIntervalMs = this.config.drainPollIntervalMs ?? 100;
+        this.logger.info(`🚰 Draining ${this.rooms.size} rooms before shutdown`);
+        this.rooms.forEach(room => room.notifyRestart(reconnectDelayMs));
+        
+        while (Array.from(this.rooms.values()).some(room => room.hasPicksInFlight())) {
+            if (Date.now() >= deadline) {
+                this.logger.warn('⚠️ Drain timed out with picks still in flight');
+                return;
+            }
+            await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+        }
+        this.logger.info('✅ Drain complete, no picks in flight');
+    }
+
     public async shutdown(): Promise<void> {
         this.logger.info('🛑 Shutting down Yahoo WebSocket Proxy...');
         
-        // Close all WebSocket connections
+        // Save room state before anything is torn down, to restore it on the next boot
+        if (this.config.stateFile) {
+            saveState(this.config.stateFile, Array.from(this.rooms.values()).map(room => room.exportState()), this.logger);
+        }
+        
+        // Close all WebSocket connections; after a drain, clients were told to come back
         if (this.wss) {
             this.wss.clients.forEach((ws) => {
                 if (ws.readyState === WebSocket.OPEN) {
-                    ws.close(1001, 'Server shutdown');
+                    ws.close(this.draining ? 1012 : 1001, this.draining ? 'Server restarting' : 'Server shutdown');
                 }
             });
             this.wss.close();
         }
+        // Clients relayed from other nodes are closed there
+        this.remoteClients.forEach(({ socket }) => {
+            socket.close(this.draining ? 1012 : 1001, this.draining ? 'Server restarting' : 'Server shutdown');
+        });
+        this.remoteClients.clear();
+        this.relayedClients.clear();
 
-        // Cleanup all rooms
-        rooms.forEach(room => room.cleanup());
-        rooms.clear();
-        clientConnections.clear();
+        // Cleanup all rooms and hand their leagues back to the registry
+        if (this.leaseTimer) {
+            clearInterval(this.leaseTimer);
+            this.leaseTimer = null;
+        }
+        this.rooms.forEach(room => room.cleanup());
+        await Promise.all(Array.from(this.rooms.values()).map(room => this.roomRegistry.release(room.leagueId).catch(error => {
+            this.logger.error(`❌ Failed to release lease on league ${room.leagueId}:`, error);
+        })));
+        this.rooms.clear();
+        this.clientConnections.clear();
+        await this.roomRegistry.close();
+        await this.webhooks.close();
 
         this.logger.info('✅ Yahoo WebSocket Proxy shutdown complete');
     }
@@ -637,6 +3185,7 @@ export async function initApp(config: Config, logger: Logger): Promise<YahooWebS
     logger.info('🚀 Initializing Yahoo WebSocket Proxy App...');
     
     const app = new YahooWebSocketProxyApp(config, logger);
+    await app.restoreState();
     
     logger.info('✅ Yahoo WebSocket Proxy App initialized');
     return app;
@@ -0,0 +1,82 @@
+import { JoinTokenClaims, JoinTokenError, signJoinToken, verifyJoinToken } from './auth';
+
+const SECRET = 'test-secret';
+const NOW_MS = Date.UTC(2026, 0, 1);
+
+const claims: JoinTokenClaims = {
+    leagueId: '449.l.12345',
+    draftPosition: 3,
+    platformUserId: 'user-1',
+    websocketUrl: 'wss://pub-api-rw.fantasysports.yahoo.com/draft',
+    role: 'co_manager',
+    exp: NOW_MS / 1000 + 60
+};
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const failure = (verify: () => unknown): JoinTokenError => {
+    try {
+        verify();
+    } catch (error) {
+        if (error instanceof JoinTokenError) {
+            return error;
+        }
+        throw error;
+    }
+    throw new Error('Expected the join token to be refused');
+};
+
+describe('verifyJoinToken', () => {
+    it('returns the claims of a valid token', () => {
+        expect(verifyJoinToken(signJoinToken(claims, SECRET), SECRET, NOW_MS)).toEqual(claims);
+    });
+
+    it('refuses a token signed with another secret', () => {
+        const token = signJoinToken(claims, 'other-secret');
+
+        expect(failure(() => verifyJoinToken(token, SECRET, NOW_MS)).reason).toBe('bad_signature');
+    });
+
+    it('refuses a token whose claims were changed after signing', () => {
+        const [header, , signature] = signJoinToken(claims, SECRET).split('.');
+        const token = `${header}.${encode({ ...claims, draftPosition: 1 })}.${signature}`;
+
+        expect(failure(() => verifyJoinToken(token, SECRET, NOW_MS)).reason).toBe('bad_signature');
+    });
+
+    it('refuses an expired token', () => {
+        const token = signJoinToken({ ...claims, exp: NOW_MS / 1000 }, SECRET);
+
+        expect(failure(() => verifyJoinToken(token, SECRET, NOW_MS)).reason).toBe('expired');
+    });
+
+    it('refuses tokens that are not three segments of JSON', () => {
+        expect(failure(() => verifyJoinToken('a.b', SECRET, NOW_MS)).reason).toBe('malformed');
+        expect(failure(() => verifyJoinToken('a.b.c', SECRET, NOW_MS)).reason).toBe('malformed');
+    });
+
+    it('refuses algorithms other than HS256', () => {
+        const [, payload, signature] = signJoinToken(claims, SECRET).split('.');
+        const token = `${encode({ alg: 'none', typ: 'JWT' })}.${payload}.${signature}`;
+
+        const error = failure(() => verifyJoinToken(token, SECRET, NOW_MS));
+        expect(error.reason).toBe('malformed');
+        expect(error.message).toBe('Unsupported join token algorithm: none');
+    });
+
+    it.each([
+        ['a missing league ID', { leagueId: undefined }],
+        ['a league ID with unsafe characters', { leagueId: '449.l.1/../2' }],
+        ['a draft position below 1', { draftPosition: 0 }],
+        ['a draft position above the maximum', { draftPosition: 101 }],
+        ['a fractional draft position', { draftPosition: 1.5 }],
+        ['a missing upstream URL', { websocketUrl: '' }],
+        ['an unknown role', { role: 'commissioner' }],
+        ['a non-string auth value', { auth: 42 }],
+        ['a missing expiry', { exp: undefined }]
+    ])('refuses a correctly signed token with %s', (_description, override) => {
+        const token = signJoinToken({ ...claims, ...override } as unknown as JoinTokenClaims, SECRET);
+
+        expect(failure(() => verifyJoinToken(token, SECRET, NOW_MS)).reason).toBe('malformed');
+    });
+});
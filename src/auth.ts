@@ -0,0 +1,103 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { isValidDraftPosition, isValidLeagueId } from './schema';
+
+// Signed join tokens
+// Tokens are HS256 JWTs minted by our backend with the shared JOIN_TOKEN_SECRET.
+
+// Owners and co-managers may act for their own seat; only owners may reconnect it. Spectators
+// only receive.
+export type ClientRole = 'owner' | 'co_manager' | 'spectator';
+
+export const CLIENT_ROLES: ClientRole[] = ['owner', 'co_manager', 'spectator'];
+
+export interface JoinTokenClaims {
+    leagueId: string;
+    draftPosition: number;
+    platformUserId: string;
+    websocketUrl: string; // Only upstream URL this token may connect to
+    auth?: string; // Yahoo auth value for the join message
+    role?: ClientRole; // Defaults to owner
+    exp: number; // Expiry, seconds since epoch
+    iat?: number;
+}
+
+export type JoinTokenFailure = 'malformed' | 'bad_signature' | 'expired';
+
+export class JoinTokenError extends Error {
+    public readonly reason: JoinTokenFailure;
+
+    constructor(reason: JoinTokenFailure, message: string) {
+        super(message);
+        this.name = 'JoinTokenError';
+        this.reason = reason;
+    }
+}
+
+const JWT_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+function base64UrlEncode(value: string | Buffer): string {
+    return Buffer.from(value).toString('base64url');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasRequiredClaims(claims: unknown): claims is JoinTokenClaims {
+    return isRecord(claims)
+        && isValidLeagueId(claims.leagueId)
+        && isValidDraftPosition(claims.draftPosition)
+        && typeof claims.platformUserId === 'string'
+        && typeof claims.websocketUrl === 'string' && !!claims.websocketUrl
+        && (claims.auth === undefined || typeof claims.auth === 'string')
+        && (claims.role === undefined || CLIENT_ROLES.includes(claims.role as ClientRole))
+        && typeof claims.exp === 'number';
+}
+
+function sign(signingInput: string, secret: string): Buffer {
+    return createHmac('sha256', secret).update(signingInput).digest();
+}
+
+export function signJoinToken(claims: JoinTokenClaims, secret: string): string {
+    const signingInput = `${base64UrlEncode(JSON.stringify(JWT_HEADER))}.${base64UrlEncode(JSON.stringify(claims))}`;
+    return `${signingInput}.${base64UrlEncode(sign(signingInput, secret))}`;
+}
+
+export function verifyJoinToken(token: string, secret: string, nowMs: number = Date.now()): JoinTokenClaims {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        throw new JoinTokenError('malformed', 'Join token must have three segments');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+    let header: unknown;
+    let claims: unknown;
+    try {
+        header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
+        claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+    } catch {
+        throw new JoinTokenError('malformed', 'Join token is not valid JSON');
+    }
+
+    const algorithm = isRecord(header) ? header.alg : undefined;
+    if (algorithm !== JWT_HEADER.alg) {
+        throw new JoinTokenError('malformed', `Unsupported join token algorithm: ${algorithm}`);
+    }
+
+    const expected = sign(`${encodedHeader}.${encodedPayload}`, secret);
+    const actual = Buffer.from(encodedSignature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        throw new JoinTokenError('bad_signature', 'Join token signature does not match');
+    }
+
+    if (!hasRequiredClaims(claims)) {
+        throw new JoinTokenError('malformed', 'Join token is missing required claims');
+    }
+
+    if (claims.exp * 1000 <= nowMs) {
+        throw new JoinTokenError('expired', 'Join token has expired');
+    }
+
+    return claims;
+}
@@ -0,0 +1,40 @@
+import { DraftEvent } from './protocol';
+import { EncodedMessage } from './encoding';
+
+// Slow-consumer protection
+// Live broadcasts check each client's WebSocket send buffer. Past the soft limit a client is
+// lagging and, depending on the policy, droppable frames are skipped and state frames are held
+// back so only the latest of each is delivered once the buffer drains. Control messages and
+// picks are always sent. Past the hard limit the client is disconnected.
+
+// How a frame may be treated while its client is lagging
+export type FrameDelivery =
+    | { priority: 'critical' }
+    | { priority: 'state'; key: string } // A newer frame with the same key supersedes it
+    | { priority: 'droppable' };
+
+export const CRITICAL_DELIVERY: FrameDelivery = { priority: 'critical' };
+
+// What a lagging client missed, reported to it once it catches up
+export interface SlowClientBacklog {
+    sinceSeq: number; // Sequence number of the first message held back or dropped
+    droppedCount: number;
+    coalescedCount: number; // State frames superseded by a newer one before delivery
+    heldFrames: Map<string, EncodedMessage>; // Map<state key, message> of the latest state frames
+}
+
+// Clock frames are superseded by the next one, and a manager's queue by their next queue frame.
+// Heartbeats carry nothing a client needs. Picks, rosters, join acks and frames the proxy
+// cannot decode are critical.
+export function yahooFrameDelivery(event: DraftEvent | null): FrameDelivery {
+    switch (event?.kind) {
+        case 'clock':
+            return { priority: 'state', key: 'clock' };
+        case 'queue':
+            return { priority: 'state', key: `queue:${event.draftPosition}` };
+        case 'heartbeat':
+            return { priority: 'droppable' };
+        default:
+            return CRITICAL_DELIVERY;
+    }
+}
@@ -0,0 +1,136 @@
+import { ClockEvent, DraftEvent, PickEvent } from './protocol';
+
+// Draft board
+// League-wide draft state derived from decoded Yahoo frames: the draft positions taking part,
+// every pick so far and the pick currently on the clock. Yahoo repeats league-wide frames on
+// every connection and replays earlier picks on join, so applying a frame twice is harmless.
+
+export interface BoardPick {
+    overallPick: number;
+    round: number;
+    draftPosition: number;
+    playerId: string;
+    ts: number; // Epoch milliseconds when the proxy first saw the pick
+    autopick: boolean; // Submitted by the proxy's autopick
+}
+
+export interface BoardClock {
+    overallPick: number;
+    round: number;
+    draftPosition: number; // Draft position on the clock
+    secondsRemaining: number;
+    updatedAt: number; // Epoch milliseconds of the latest clock frame
+}
+
+export interface DraftBoardState {
+    order: number[]; // Draft positions seen in the stream, in draft order
+    picks: BoardPick[]; // By overall pick
+    currentPick: BoardClock | null;
+}
+
+export class DraftBoard {
+    private picks: Map<string, BoardPick> = new Map(); // Map<playerId, BoardPick>
+    private positions: Set<number> = new Set();
+    private clock: BoardClock | null = null;
+    private autopickedPlayerIds: Set<string> = new Set(); // Players the proxy submitted picks for
+
+    // Returns true when the event is news: a player not picked before, or a new pick on the clock
+    public apply(event: DraftEvent): boolean {
+        switch (event.kind) {
+            case 'pick':
+                return this.applyPick(event);
+            case 'clock':
+                return this.applyClock(event);
+            case 'roster':
+                this.positions.add(event.draftPosition);
+                return false;
+            default:
+                return false;
+        }
+    }
+
+    private applyPick(event: PickEvent): boolean {
+        this.positions.add(event.draftPosition);
+        if (this.picks.has(event.playerId)) {
+            return false;
+        }
+        this.picks.set(event.playerId, {
+            overallPick: event.overallPick,
+            round: event.round,
+            draftPosition: event.draftPosition,
+            playerId: event.playerId,
+            ts: Date.now(),
+            autopick: this.autopickedPlayerIds.has(event.playerId)
+        });
+        return true;
+    }
+
+    private applyClock(event: ClockEvent): boolean {
+        this.positions.add(event.draftPosition);
+        const isNewPick = !this.clock || this.clock.overallPick !== event.overallPick;
+        this.clock = {
+            overallPick: event.overallPick,
+            round: event.round,
+            draftPosition: event.draftPosition,
+            secondsRemaining: event.secondsRemaining,
+            updatedAt: Date.now()
+        };
+        return isNewPick;
+    }
+
+    public isDrafted(playerId: string): boolean {
+        return this.picks.has(playerId);
+    }
+
+    // Flags the pick of a player as an autopick whether or not Yahoo has confirmed it yet
+    public markAutopick(playerId: string): void {
+        this.autopickedPlayerIds.add(playerId);
+        const pick = this.picks.get(playerId);
+        if (pick) {
+            pick.autopick = true;
+        }
+    }
+
+    public get pickCount(): number {
+        return this.picks.size;
+    }
+
+    // Whether the pick on the clock is still to be made; false before the first clock frame
+    public get hasPickOnClock(): boolean {
+        const clock = this.clock;
+        return !!clock && !Array.from(this.picks.values()).some(pick => pick.overallPick === clock.overallPick);
+    }
+
+    // Whether every draft position seen has made all its picks in a draft of this many rounds
+    public isComplete(rounds: number): boolean {
+        return rounds > 0 && this.positions.size > 0 && this.picks.size >= rounds * this.positions.size;
+    }
+
+    public getState(): DraftBoardState {
+        return {
+            order: Array.from(this.positions).sort((a, b) => a - b),
+            picks: Array.from(this.picks.values()).sort((a, b) => a.overallPick - b.overallPick).map(pick => ({ ...pick })),
+            currentPick: this.clock ? { ...this.clock } : null
+        };
+    }
+
+    // Reloads a board saved with getState
+    public restore(state: DraftBoardState): void {
+        this.clear();
+        state.order.forEach(draftPosition => this.positions.add(draftPosition));
+        state.picks.forEach(pick => {
+            this.picks.set(pick.playerId, { ...pick });
+            if (pick.autopick) {
+                this.autopickedPlayerIds.add(pick.playerId);
+            }
+        });
+        this.clock = state.currentPick ? { ...state.currentPick } : null;
+    }
+
+    public clear(): void {
+        this.picks.clear();
+        this.positions.clear();
+        this.clock = null;
+        this.autopickedPlayerIds.clear();
+    }
+}
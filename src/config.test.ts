@@ -0,0 +1,136 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_ROOM_SETTINGS, initConfig, settingsNeedingRestart } from './config';
+import { ConfigError } from './settings';
+
+const problems = async (argv: string[], env: NodeJS.ProcessEnv = {}): Promise<string[]> => {
+    try {
+        await initConfig(argv, env);
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            return error.problems;
+        }
+        throw error;
+    }
+    throw new Error('Expected the configuration to be refused');
+};
+
+describe('initConfig', () => {
+    let dir: string;
+
+    const writeConfigFile = (name: string, contents: string): string => {
+        const configFile = path.join(dir, name);
+        fs.writeFileSync(configFile, contents);
+        return configFile;
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proxy-config-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('uses the defaults when nothing is set', async () => {
+        const config = await initConfig([], {});
+
+        expect(config.port).toBe(3001);
+        expect(config.room).toEqual(DEFAULT_ROOM_SETTINGS);
+        expect(config.maxConnectionsPerIp).toBe(0);
+        expect(config.leagues).toEqual({});
+    });
+
+    it('layers flags over the environment over the config file', async () => {
+        const configFile = writeConfigFile('proxy.yaml', [
+            'port: 4000',
+            'maxRooms: 10',
+            'heartbeatInterval: 20000',
+            'upstreamAllowedHosts: ["a.example.com", "b.example.com"]'
+        ].join('\n'));
+
+        const config = await initConfig(['--config', configFile, '--max-rooms=30'], { MAX_ROOMS: '20', HEARTBEAT_INTERVAL: '25000' });
+
+        expect(config.configFile).toBe(configFile);
+        expect(config.port).toBe(4000);
+        expect(config.maxRooms).toBe(30);
+        expect(config.room.heartbeatInterval).toBe(25000);
+        expect(config.upstreamPolicy.allowedHosts).toEqual(['a.example.com', 'b.example.com']);
+    });
+
+    it('reads the config file from CONFIG_FILE and JSON files', async () => {
+        const configFile = writeConfigFile('proxy.json', JSON.stringify({ port: 4100 }));
+
+        const config = await initConfig([], { CONFIG_FILE: configFile });
+
+        expect(config.port).toBe(4100);
+    });
+
+    it('ignores empty environment variables', async () => {
+        const config = await initConfig([], { PORT: '' });
+
+        expect(config.port).toBe(3001);
+    });
+
+    it('reads league overrides over the room settings from every source', async () => {
+        const configFile = writeConfigFile('proxy.yaml', [
+            'roomCleanupDelayMs: 5000',
+            'leagues:',
+            '  "449.l.1":',
+            '    autopickHoldMs: 1800000'
+        ].join('\n'));
+
+        const config = await initConfig(['--config', configFile], { AUTOPICK_THRESHOLD_SECONDS: '15' });
+
+        expect(config.leagues['449.l.1']).toEqual({
+            ...DEFAULT_ROOM_SETTINGS,
+            roomCleanupDelayMs: 5000,
+            autopickThresholdSeconds: 15,
+            autopickHoldMs: 1800000
+        });
+        expect(config.room.autopickHoldMs).toBe(DEFAULT_ROOM_SETTINGS.autopickHoldMs);
+    });
+
+    it('lists every problem with where its value came from', async () => {
+        const configFile = writeConfigFile('proxy.yaml', [
+            'heartbeatInterval: fast',
+            'colour: blue',
+            'leagues:',
+            '  "449.l.1":',
+            '    port: 4000',
+            '    draftRounds: -1'
+        ].join('\n'));
+
+        expect(await problems(['--config', configFile, '--bogus'], { PORT: '70000', UPSTREAM_MODE: 'mesh' })).toEqual(expect.arrayContaining([
+            `heartbeatInterval in ${configFile} must be an integer, got "fast"`,
+            `Unknown setting colour in ${configFile}`,
+            `leagues.449.l.1.port in ${configFile} cannot be set per league`,
+            'leagues.449.l.1: Invalid draft rounds: -1',
+            'Unknown flag --bogus',
+            'Invalid port: 70000',
+            'environment variable UPSTREAM_MODE must be one of shared, per_position, per_auth, got "mesh"'
+        ]));
+    });
+
+    it('refuses a config file it cannot read', async () => {
+        const configFile = writeConfigFile('proxy.toml', 'port = 4000');
+
+        expect(await problems(['--config', configFile])).toEqual([`Cannot read config file ${configFile}: must end in .json, .yaml or .yml`]);
+    });
+
+    it('requires the settings other settings depend on', async () => {
+        expect(await problems([], { NODE_ENV: 'production' })).toContain('JOIN_TOKEN_SECRET is required unless ALLOW_UNSIGNED_JOIN=true');
+        expect(await problems([], { ROOM_REGISTRY: 'redis' })).toContain('REDIS_URL is required when ROOM_REGISTRY=redis');
+        expect(await problems([], { OTEL_ENABLED: 'true' })).toContain('OTEL_EXPORTER_OTLP_ENDPOINT is required when OTEL_ENABLED=true');
+    });
+});
+
+describe('settingsNeedingRestart', () => {
+    it('lists changed settings that are only read at startup', async () => {
+        const current = await initConfig([], {});
+        const next = await initConfig([], { PORT: '4000', MAX_ROOMS: '5', ROOM_CLEANUP_DELAY_MS: '500' });
+
+        expect(settingsNeedingRestart(current, next)).toEqual(['port']);
+    });
+});
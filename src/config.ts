@@ -1,46 +1,426 @@
+import os from 'os';
+import { UpstreamPolicy } from './upstream';
+import { AdminApiKey, parseAdminApiKeys } from './admin';
+import { FrameRateLimits } from './ratelimit';
+import { ConfigError, SettingReader, loadConfigSources } from './settings';
+import { SERVICE_NAME } from './telemetry';
+
 export enum Env {
     Dev = 'development',
     Prod = 'production',
     Test = 'test'
 }
 
+// How a room connects upstream: one Yahoo connection for the whole league, or one per
+// draft position / auth credential among its clients
+export enum UpstreamMode {
+    Shared = 'shared',
+    PerPosition = 'per_position',
+    PerAuth = 'per_auth'
+}
+
+// Where league ownership is kept: in this process, or in Redis shared by several nodes
+export enum RoomRegistryKind {
+    Memory = 'memory',
+    Redis = 'redis'
+}
+
+// What live broadcasts do for a client whose send buffer is over the soft limit
+export enum SlowClientPolicy {
+    Drop = 'drop', // Drop droppable and state frames
+    Coalesce = 'coalesce', // Drop droppable frames, deliver the latest state frames once the client catches up
+    Disconnect = 'disconnect'
+}
+
+const LOG_LEVELS = ['error', 'warn', 'info', 'debug'];
+
+// The timings and limits of a room. Leagues can override them in the config file.
+export interface RoomSettings {
+    upstreamMode: UpstreamMode;
+    maxReconnectAttempts: number;
+    reconnectBaseDelayMs: number;
+    reconnectMaxDelayMs: number;
+    connectionTimeout: number;
+    heartbeatInterval: number;
+    upstreamPingIntervalMs: number; // 0 turns pings and stale detection off
+    upstreamStaleTimeoutMs: number; // 0 never recycles a silent connection
+    snapshotMaxBytes: number;
+    resumeWindowSize: number;
+    resumeTokenTtlMs: number;
+    sharedFrameWindowSize: number; // League-wide frames remembered for deduplication across seats; 0 turns it off
+    outboundQueueSize: number; // 0 rejects client frames while Yahoo is not connected
+    outboundQueueTtlMs: number;
+    pickInFlightTimeoutMs: number; // Picks count as in flight until Yahoo echoes them or this long has passed
+    autopickThresholdSeconds: number;
+    autopickHoldMs: number; // How long an empty room or seat stays open for an armed autopick
+    roomCleanupDelayMs: number; // How long an empty room or seat stays open for rapid reconnections
+    draftRounds: number; // The draft is complete once every team has made this many picks; 0 waits for Yahoo to close the draft
+    slowClientPolicy: SlowClientPolicy;
+    clientBufferSoftLimitBytes: number;
+    clientBufferHardLimitBytes: number;
+    maxConnectionsPerLeague: number;
+    frameRateLimits: FrameRateLimits;
+}
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+    upstreamMode: UpstreamMode.Shared,
+    maxReconnectAttempts: 5,
+    reconnectBaseDelayMs: 1000,
+    reconnectMaxDelayMs: 30000,
+    connectionTimeout: 10000,
+    heartbeatInterval: 30000,
+    upstreamPingIntervalMs: 10000,
+    upstreamStaleTimeoutMs: 45000,
+    snapshotMaxBytes: 5 * 1024 * 1024,
+    resumeWindowSize: 1000,
+    resumeTokenTtlMs: 60000,
+    sharedFrameWindowSize: 5000,
+    outboundQueueSize: 0,
+    outboundQueueTtlMs: 5000,
+    pickInFlightTimeoutMs: 30000,
+    autopickThresholdSeconds: 10,
+    autopickHoldMs: 10 * 60 * 1000,
+    roomCleanupDelayMs: 2000,
+    draftRounds: 0,
+    slowClientPolicy: SlowClientPolicy.Coalesce,
+    clientBufferSoftLimitBytes: 1024 * 1024,
+    clientBufferHardLimitBytes: 16 * 1024 * 1024,
+    maxConnectionsPerLeague: 200,
+    frameRateLimits: { frameRate: 10, frameBurst: 20, heartbeatRate: 1, heartbeatBurst: 2, strikeLimit: 50 }
+};
+
 export interface Config {
     env: Env;
+    configFile?: string;
     port: number;
     shutdownTimeoutMs: number;
-    maxReconnectAttempts: number;
-    heartbeatInterval: number;
-    connectionTimeout: number;
+    room: RoomSettings;
+    leagues: Record<string, RoomSettings>; // Room settings of leagues with overrides, keyed by league ID
+    joinTokenSecret?: string;
+    allowUnsignedJoin: boolean;
+    upstreamPolicy: UpstreamPolicy;
+    adminApiKeys: AdminApiKey[];
+    recordingDir?: string;
+    draftStoreDir: string;
+    stateFile?: string;
+    restoredRoomTtlMs: number;
+    drainTimeoutMs: number;
+    drainReconnectDelayMs: number;
+    drainPollIntervalMs: number;
+    eventStreamKeepaliveMs: number;
+    webhookMaxAttempts: number;
+    webhookRetryBaseDelayMs: number;
+    webhookRetryMaxDelayMs: number;
+    webhookTimeoutMs: number;
+    webhookDeadLetterPath?: string;
+    webhookStorePath: string; // Used when ROOM_REGISTRY=memory; Redis registries keep subscriptions in Redis
+    roomRegistry: RoomRegistryKind;
+    redisUrl?: string;
+    nodeId: string;
+    registryLeaseMs: number;
+    trustProxy: boolean;
+    maxConnectionsPerIp: number;
+    maxRooms: number;
+    perMessageDeflate: boolean;
+    perMessageDeflateThresholdBytes: number;
     logLevel: string;
+    otelEnabled: boolean;
+    otelEndpoint?: string;
+    otelServiceName: string;
+}
+
+// Settings that are applied again on SIGHUP; changing any other needs a restart
+const RELOADABLE_SETTINGS: (keyof Config)[] = ['room', 'leagues', 'maxConnectionsPerIp', 'maxRooms'];
+
+// Room settings read over the given base, which supplies any setting that is not set
+function readRoomSettings(read: SettingReader, base: RoomSettings): RoomSettings {
+    return {
+        upstreamMode: read.oneOf('UPSTREAM_MODE', Object.values(UpstreamMode), base.upstreamMode),
+        maxReconnectAttempts: read.int('MAX_RECONNECT_ATTEMPTS', base.maxReconnectAttempts),
+        reconnectBaseDelayMs: read.int('RECONNECT_BASE_DELAY_MS', base.reconnectBaseDelayMs),
+        reconnectMaxDelayMs: read.int('RECONNECT_MAX_DELAY_MS', base.reconnectMaxDelayMs),
+        connectionTimeout: read.int('CONNECTION_TIMEOUT', base.connectionTimeout),
+        heartbeatInterval: read.int('HEARTBEAT_INTERVAL', base.heartbeatInterval),
+        upstreamPingIntervalMs: read.int('UPSTREAM_PING_INTERVAL_MS', base.upstreamPingIntervalMs),
+        upstreamStaleTimeoutMs: read.int('UPSTREAM_STALE_TIMEOUT_MS', base.upstreamStaleTimeoutMs),
+        snapshotMaxBytes: read.int('SNAPSHOT_MAX_BYTES', base.snapshotMaxBytes),
+        resumeWindowSize: read.int('RESUME_WINDOW_SIZE', base.resumeWindowSize),
+        resumeTokenTtlMs: read.int('RESUME_TOKEN_TTL_MS', base.resumeTokenTtlMs),
+        sharedFrameWindowSize: read.int('SHARED_FRAME_WINDOW_SIZE', base.sharedFrameWindowSize),
+        outboundQueueSize: read.int('OUTBOUND_QUEUE_SIZE', base.outboundQueueSize),
+        outboundQueueTtlMs: read.int('OUTBOUND_QUEUE_TTL_MS', base.outboundQueueTtlMs),
+        pickInFlightTimeoutMs: read.int('PICK_IN_FLIGHT_TIMEOUT_MS', base.pickInFlightTimeoutMs),
+        autopickThresholdSeconds: read.int('AUTOPICK_THRESHOLD_SECONDS', base.autopickThresholdSeconds),
+        autopickHoldMs: read.int('AUTOPICK_HOLD_MS', base.autopickHoldMs),
+        roomCleanupDelayMs: read.int('ROOM_CLEANUP_DELAY_MS', base.roomCleanupDelayMs),
+        draftRounds: read.int('DRAFT_ROUNDS', base.draftRounds),
+        slowClientPolicy: read.oneOf('SLOW_CLIENT_POLICY', Object.values(SlowClientPolicy), base.slowClientPolicy),
+        clientBufferSoftLimitBytes: read.int('CLIENT_BUFFER_SOFT_LIMIT_BYTES', base.clientBufferSoftLimitBytes),
+        clientBufferHardLimitBytes: read.int('CLIENT_BUFFER_HARD_LIMIT_BYTES', base.clientBufferHardLimitBytes),
+        maxConnectionsPerLeague: read.int('MAX_CONNECTIONS_PER_LEAGUE', base.maxConnectionsPerLeague),
+        frameRateLimits: {
+            frameRate: read.float('CLIENT_FRAME_RATE', base.frameRateLimits.frameRate),
+            frameBurst: read.int('CLIENT_FRAME_BURST', base.frameRateLimits.frameBurst),
+            heartbeatRate: read.float('CLIENT_HEARTBEAT_RATE', base.frameRateLimits.heartbeatRate),
+            heartbeatBurst: read.int('CLIENT_HEARTBEAT_BURST', base.frameRateLimits.heartbeatBurst),
+            strikeLimit: read.int('CLIENT_RATE_LIMIT_STRIKES', base.frameRateLimits.strikeLimit)
+        }
+    };
+}
+
+// Problems are prefixed with the league whose overrides caused them, if any
+function validateRoomSettings(settings: RoomSettings, problems: string[], prefix: string = ''): void {
+    const fail = (problem: string) => problems.push(prefix + problem);
+
+    if (settings.maxReconnectAttempts < 0) {
+        fail(`Invalid max reconnect attempts: ${settings.maxReconnectAttempts}`);
+    }
+
+    if (settings.reconnectBaseDelayMs < 0 || settings.reconnectMaxDelayMs < settings.reconnectBaseDelayMs) {
+        fail(`Invalid reconnect delays: base ${settings.reconnectBaseDelayMs}, max ${settings.reconnectMaxDelayMs}`);
+    }
+
+    if (settings.connectionTimeout < 1) {
+        fail(`Invalid connection timeout: ${settings.connectionTimeout}`);
+    }
+
+    if (settings.heartbeatInterval < 1000) {
+        fail(`Invalid heartbeat interval: ${settings.heartbeatInterval} (minimum 1000)`);
+    }
+
+    // Silence is checked on each ping, so stale detection needs pings and at least one of them
+    // inside the timeout; 0 turns either off
+    const { upstreamPingIntervalMs, upstreamStaleTimeoutMs } = settings;
+    if (upstreamPingIntervalMs < 0 || upstreamStaleTimeoutMs < 0 || (upstreamStaleTimeoutMs > 0 && (upstreamPingIntervalMs === 0 || upstreamStaleTimeoutMs <= upstreamPingIntervalMs))) {
+        fail(`Invalid upstream liveness settings: ping every ${upstreamPingIntervalMs}ms, stale after ${upstreamStaleTimeoutMs}ms (the stale timeout needs pings and must be longer than the ping interval)`);
+    }
+
+    if (settings.snapshotMaxBytes < 0) {
+        fail(`Invalid snapshot max bytes: ${settings.snapshotMaxBytes}`);
+    }
+
+    if (settings.resumeWindowSize < 0 || settings.resumeTokenTtlMs < 0) {
+        fail(`Invalid resume settings: window ${settings.resumeWindowSize}, token TTL ${settings.resumeTokenTtlMs}`);
+    }
+
+    if (settings.sharedFrameWindowSize < 0) {
+        fail(`Invalid shared frame window size: ${settings.sharedFrameWindowSize}`);
+    }
+
+    if (settings.outboundQueueSize < 0 || settings.outboundQueueTtlMs < 0) {
+        fail(`Invalid outbound queue settings: size ${settings.outboundQueueSize}, TTL ${settings.outboundQueueTtlMs}`);
+    }
+
+    if (settings.pickInFlightTimeoutMs < 1) {
+        fail(`Invalid pick in-flight timeout: ${settings.pickInFlightTimeoutMs}`);
+    }
+
+    if (settings.autopickThresholdSeconds < 0 || settings.autopickHoldMs < 0) {
+        fail(`Invalid autopick settings: threshold ${settings.autopickThresholdSeconds}s, hold ${settings.autopickHoldMs}ms`);
+    }
+
+    if (settings.roomCleanupDelayMs < 0) {
+        fail(`Invalid room cleanup delay: ${settings.roomCleanupDelayMs}`);
+    }
+
+    if (settings.draftRounds < 0) {
+        fail(`Invalid draft rounds: ${settings.draftRounds}`);
+    }
+
+    if (settings.clientBufferSoftLimitBytes < 1 || settings.clientBufferHardLimitBytes < settings.clientBufferSoftLimitBytes) {
+        fail(`Invalid client buffer limits: soft ${settings.clientBufferSoftLimitBytes}, hard ${settings.clientBufferHardLimitBytes}`);
+    }
+
+    // 0 means unlimited
+    if (settings.maxConnectionsPerLeague < 0) {
+        fail(`Invalid connection limit per league: ${settings.maxConnectionsPerLeague}`);
+    }
+
+    // A bucket must hold at least one token; a rate of 0 turns its limit off
+    const { frameRate, frameBurst, heartbeatRate, heartbeatBurst, strikeLimit } = settings.frameRateLimits;
+    if (frameRate < 0 || frameBurst < 1 || heartbeatRate < 0 || heartbeatBurst < 1 || strikeLimit < 0) {
+        fail(`Invalid client rate limits: ${frameRate}/s burst ${frameBurst}, heartbeats ${heartbeatRate}/s burst ${heartbeatBurst}, strikes ${strikeLimit}`);
+    }
 }
 
-export async function initConfig(): Promise<Config> {
-    const env = (process.env.NODE_ENV as Env) || Env.Dev;
-    const port = parseInt(process.env.PORT || '3001', 10);
-    const shutdownTimeoutMs = parseInt(process.env.SHUTDOWN_TIMEOUT_MS || '30000', 10);
-    const maxReconnectAttempts = parseInt(process.env.MAX_RECONNECT_ATTEMPTS || '5', 10);
-    const heartbeatInterval = parseInt(process.env.HEARTBEAT_INTERVAL || '30000', 10);
-    const connectionTimeout = parseInt(process.env.CONNECTION_TIMEOUT || '10000', 10);
-    const logLevel = process.env.LOG_LEVEL || 'info';
+// Reads the config from the command line flags, the environment and the config file, and checks
+// it. Throws a ConfigError listing every problem found.
+export async function initConfig(argv: string[] = process.argv.slice(2), environment: NodeJS.ProcessEnv = process.env): Promise<Config> {
+    const problems: string[] = [];
+    const sources = await loadConfigSources(argv, environment, problems);
+    const read = SettingReader.fromSources(sources, problems);
+
+    const env = read.oneOf('NODE_ENV', Object.values(Env), Env.Dev);
+    const port = read.int('PORT', 3001);
+    const shutdownTimeoutMs = read.int('SHUTDOWN_TIMEOUT_MS', 30000);
+    const room = readRoomSettings(read, DEFAULT_ROOM_SETTINGS);
+    const joinTokenSecret = read.string('JOIN_TOKEN_SECRET');
+    const allowUnsignedJoin = read.bool('ALLOW_UNSIGNED_JOIN', env === Env.Dev);
+    const upstreamPolicy: UpstreamPolicy = {
+        allowedHosts: read.list('UPSTREAM_ALLOWED_HOSTS', '*.fantasysports.yahoo.com'),
+        allowedSchemes: read.list('UPSTREAM_ALLOWED_SCHEMES', 'wss'),
+        allowPrivateAddresses: read.bool('UPSTREAM_ALLOW_PRIVATE', false)
+    };
+    let adminApiKeys: AdminApiKey[] = [];
+    try {
+        adminApiKeys = parseAdminApiKeys(read.string('ADMIN_API_KEYS', ''));
+    } catch (error) {
+        problems.push((error as Error).message);
+    }
+    const recordingDir = read.string('RECORDING_DIR');
+    const draftStoreDir = read.string('DRAFT_STORE_DIR', './drafts');
+    const stateFile = read.string('STATE_FILE');
+    const restoredRoomTtlMs = read.int('RESTORED_ROOM_TTL_MS', 120000);
+    const drainTimeoutMs = read.int('DRAIN_TIMEOUT_MS', 10000);
+    const drainReconnectDelayMs = read.int('DRAIN_RECONNECT_DELAY_MS', 5000);
+    const drainPollIntervalMs = read.int('DRAIN_POLL_INTERVAL_MS', 100);
+    const eventStreamKeepaliveMs = read.int('EVENT_STREAM_KEEPALIVE_MS', 15000);
+    const webhookMaxAttempts = read.int('WEBHOOK_MAX_ATTEMPTS', 5);
+    const webhookRetryBaseDelayMs = read.int('WEBHOOK_RETRY_BASE_DELAY_MS', 1000);
+    const webhookRetryMaxDelayMs = read.int('WEBHOOK_RETRY_MAX_DELAY_MS', 60000);
+    const webhookTimeoutMs = read.int('WEBHOOK_TIMEOUT_MS', 5000);
+    const webhookDeadLetterPath = read.string('WEBHOOK_DEAD_LETTER_PATH');
+    const webhookStorePath = read.string('WEBHOOK_STORE_PATH', './webhook-subscriptions.json');
+    const roomRegistry = read.oneOf('ROOM_REGISTRY', Object.values(RoomRegistryKind), RoomRegistryKind.Memory);
+    const redisUrl = read.string('REDIS_URL');
+    const nodeId = read.string('NODE_ID', os.hostname());
+    const registryLeaseMs = read.int('REGISTRY_LEASE_MS', 15000);
+    const trustProxy = read.bool('TRUST_PROXY', false);
+    const maxConnectionsPerIp = read.int('MAX_CONNECTIONS_PER_IP', 0);
+    const maxRooms = read.int('MAX_ROOMS', 0);
+    const perMessageDeflate = read.bool('CLIENT_PERMESSAGE_DEFLATE', false);
+    const perMessageDeflateThresholdBytes = read.int('CLIENT_PERMESSAGE_DEFLATE_THRESHOLD_BYTES', 1024);
+    const logLevel = read.oneOf('LOG_LEVEL', LOG_LEVELS, 'info');
+    const otelEnabled = read.bool('OTEL_ENABLED', false);
+    const otelEndpoint = read.string('OTEL_EXPORTER_OTLP_ENDPOINT');
+    const otelServiceName = read.string('OTEL_SERVICE_NAME', SERVICE_NAME);
+
+    // Every league override block is read over the settings of all rooms
+    const leagues: Record<string, RoomSettings> = {};
+    sources.leagues.forEach((values, leagueId) => {
+        const readLeague = new SettingReader(name => values.get(name), problems);
+        leagues[leagueId] = readRoomSettings(readLeague, room);
+        readLeague.unread(values).forEach(setting => problems.push(`${setting.origin} cannot be set per league`));
+    });
+
+    read.unread(sources.flags).forEach(setting => problems.push(`Unknown flag ${setting.origin}`));
+    read.unread(sources.file).forEach(setting => problems.push(`Unknown setting ${setting.origin}`));
 
     const config: Config = {
         env,
+        configFile: sources.configFile,
         port,
         shutdownTimeoutMs,
-        maxReconnectAttempts,
-        heartbeatInterval,
-        connectionTimeout,
-        logLevel
+        room,
+        leagues,
+        joinTokenSecret,
+        allowUnsignedJoin,
+        upstreamPolicy,
+        adminApiKeys,
+        recordingDir,
+        draftStoreDir,
+        stateFile,
+        restoredRoomTtlMs,
+        drainTimeoutMs,
+        drainReconnectDelayMs,
+        drainPollIntervalMs,
+        eventStreamKeepaliveMs,
+        webhookMaxAttempts,
+        webhookRetryBaseDelayMs,
+        webhookRetryMaxDelayMs,
+        webhookTimeoutMs,
+        webhookDeadLetterPath,
+        webhookStorePath,
+        roomRegistry,
+        redisUrl,
+        nodeId,
+        registryLeaseMs,
+        trustProxy,
+        maxConnectionsPerIp,
+        maxRooms,
+        perMessageDeflate,
+        perMessageDeflateThresholdBytes,
+        logLevel,
+        otelEnabled,
+        otelEndpoint,
+        otelServiceName
     };
 
     // Validate config
-    if (isNaN(port) || port < 1 || port > 65535) {
-        throw new Error(`Invalid port: ${port}`);
+    if (port < 1 || port > 65535) {
+        problems.push(`Invalid port: ${port}`);
+    }
+
+    if (shutdownTimeoutMs < 0) {
+        problems.push(`Invalid shutdown timeout: ${shutdownTimeoutMs}`);
+    }
+
+    validateRoomSettings(room, problems);
+    Object.entries(leagues).forEach(([leagueId, settings]) => validateRoomSettings(settings, problems, `leagues.${leagueId}: `));
+
+    if (!allowUnsignedJoin && !joinTokenSecret) {
+        problems.push('JOIN_TOKEN_SECRET is required unless ALLOW_UNSIGNED_JOIN=true');
+    }
+
+    if (upstreamPolicy.allowedHosts.length === 0 || upstreamPolicy.allowedSchemes.length === 0) {
+        problems.push('UPSTREAM_ALLOWED_HOSTS and UPSTREAM_ALLOWED_SCHEMES must not be empty');
+    }
+
+    if (webhookMaxAttempts < 1 || webhookTimeoutMs < 1) {
+        problems.push(`Invalid webhook settings: max attempts ${webhookMaxAttempts}, timeout ${webhookTimeoutMs}`);
     }
 
-    if (isNaN(shutdownTimeoutMs) || shutdownTimeoutMs < 0) {
-        throw new Error(`Invalid shutdown timeout: ${shutdownTimeoutMs}`);
+    if (webhookRetryBaseDelayMs < 0 || webhookRetryMaxDelayMs < webhookRetryBaseDelayMs) {
+        problems.push(`Invalid webhook retry delays: base ${webhookRetryBaseDelayMs}, max ${webhookRetryMaxDelayMs}`);
+    }
+
+    if (restoredRoomTtlMs < 0) {
+        problems.push(`Invalid restored room TTL: ${restoredRoomTtlMs}`);
+    }
+
+    // The drain runs inside the shutdown timeout, which force-exits when it expires
+    if (drainTimeoutMs < 0 || drainTimeoutMs >= shutdownTimeoutMs || drainReconnectDelayMs < 0) {
+        problems.push(`Invalid drain settings: timeout ${drainTimeoutMs} (must be below shutdown timeout ${shutdownTimeoutMs}), reconnect delay ${drainReconnectDelayMs}`);
+    }
+
+    if (drainPollIntervalMs < 1) {
+        problems.push(`Invalid drain poll interval: ${drainPollIntervalMs}`);
+    }
+
+    if (eventStreamKeepaliveMs < 1000) {
+        problems.push(`Invalid event stream keepalive: ${eventStreamKeepaliveMs} (minimum 1000)`);
+    }
+
+    if (roomRegistry === RoomRegistryKind.Redis && !redisUrl) {
+        problems.push('REDIS_URL is required when ROOM_REGISTRY=redis');
+    }
+
+    // Leases are renewed every third of their duration
+    if (registryLeaseMs < 3000) {
+        problems.push(`Invalid registry lease: ${registryLeaseMs} (minimum 3000)`);
+    }
+
+    // 0 means unlimited
+    if (maxConnectionsPerIp < 0 || maxRooms < 0) {
+        problems.push(`Invalid connection limits: per IP ${maxConnectionsPerIp}, rooms ${maxRooms}`);
+    }
+
+    if (perMessageDeflateThresholdBytes < 0) {
+        problems.push(`Invalid permessage-deflate threshold: ${perMessageDeflateThresholdBytes}`);
+    }
+
+    if (otelEnabled && !otelEndpoint) {
+        problems.push('OTEL_EXPORTER_OTLP_ENDPOINT is required when OTEL_ENABLED=true');
+    }
+
+    if (problems.length > 0) {
+        throw new ConfigError(problems);
     }
 
     return config;
-}
\ No newline at end of file
+}
+
+// The parts of the config that differ between two configs but are only read at startup
+export function settingsNeedingRestart(current: Config, next: Config): (keyof Config)[] {
+    return (Object.keys(next) as (keyof Config)[]).filter(key => !RELOADABLE_SETTINGS.includes(key) && JSON.stringify(current[key]) !== JSON.stringify(next[key]));
+}
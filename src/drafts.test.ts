@@ -0,0 +1,69 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DraftResult, DraftStore, draftResultToCsv } from './drafts';
+
+const logger = { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+
+const PICKED_AT = Date.UTC(2026, 8, 1, 18, 30);
+
+const result = (overrides: Partial<DraftResult> = {}): DraftResult => ({
+    leagueId: '449.l.12345',
+    completed: true,
+    savedAt: PICKED_AT,
+    teams: [{ draftPosition: 1, platformUserId: 'user-1' }, { draftPosition: 2, platformUserId: null }],
+    picks: [
+        { overallPick: 1, round: 1, draftPosition: 1, playerId: 'p1', ts: PICKED_AT, autopick: false },
+        { overallPick: 2, round: 1, draftPosition: 2, playerId: 'p2', ts: PICKED_AT, autopick: true }
+    ],
+    ...overrides
+});
+
+describe('draftResultToCsv', () => {
+    it('writes a header and one row per pick with the team manager', () => {
+        expect(draftResultToCsv(result())).toBe([
+            'league_id,overall_pick,round,draft_position,platform_user_id,player_id,picked_at,autopick',
+            '449.l.12345,1,1,1,user-1,p1,2026-09-01T18:30:00.000Z,false',
+            '449.l.12345,2,1,2,,p2,2026-09-01T18:30:00.000Z,true',
+            ''
+        ].join('\n'));
+    });
+
+    it('quotes fields with commas, quotes or line breaks and doubles embedded quotes', () => {
+        const csv = draftResultToCsv(result({
+            teams: [{ draftPosition: 1, platformUserId: 'Smith, "Ace"' }, { draftPosition: 2, platformUserId: 'line\nbreak' }],
+            picks: [
+                { overallPick: 1, round: 1, draftPosition: 1, playerId: 'p,1', ts: PICKED_AT, autopick: false },
+                { overallPick: 2, round: 1, draftPosition: 2, playerId: 'p\r2', ts: PICKED_AT, autopick: false }
+            ]
+        }));
+
+        expect(csv.split('\n').slice(1, 2)).toEqual(['449.l.12345,1,1,1,"Smith, ""Ace""","p,1",2026-09-01T18:30:00.000Z,false']);
+        expect(csv).toContain('449.l.12345,2,1,2,"line\nbreak","p\r2",2026-09-01T18:30:00.000Z,false\n');
+    });
+
+    it('writes only the header for a draft without picks', () => {
+        expect(draftResultToCsv(result({ picks: [] }))).toBe('league_id,overall_pick,round,draft_position,platform_user_id,player_id,picked_at,autopick\n');
+    });
+});
+
+describe('DraftStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'proxy-drafts-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('loads the result last saved for a league, creating the directory on the first save', () => {
+        const store = new DraftStore(join(dir, 'drafts'), logger);
+        store.save(result({ completed: false }));
+        store.save(result());
+
+        expect(store.load('449.l.12345')).toEqual(result());
+        expect(store.load('449.l.99999')).toBeNull();
+    });
+});
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+import { BoardPick } from './board';
+import { Logger } from './logging';
+
+// Draft results
+// A room's draft board is saved as a DraftResult when the draft completes and again when the room
+// is cleaned up, one JSON file per league, so results can be exported after the room is gone.
+
+export interface DraftTeam {
+    draftPosition: number;
+    platformUserId: string | null; // Last manager seen at this draft position; null if none joined through the proxy
+}
+
+export interface DraftResult {
+    leagueId: string;
+    completed: boolean; // False when the room closed before Yahoo ended the draft
+    savedAt: number; // Epoch milliseconds
+    teams: DraftTeam[]; // By draft position
+    picks: BoardPick[]; // By overall pick
+}
+
+export type DraftExportFormat = 'json' | 'csv';
+
+export const DRAFT_EXPORT_FORMATS: DraftExportFormat[] = ['json', 'csv'];
+
+export class DraftStore {
+    public readonly dir: string;
+    private logger: Logger;
+
+    constructor(dir: string, logger: Logger) {
+        this.dir = dir;
+        this.logger = logger;
+    }
+
+    private filePath(leagueId: string): string {
+        const safeLeagueId = leagueId.replace(/[^a-zA-Z0-9._-]/g, '_');
+        return path.join(this.dir, `${safeLeagueId}.json`);
+    }
+
+    // Replaces the league's saved result; written to a temporary file first so readers never see
+    // a partial one. The directory is created on the first save, so a proxy that never saves a
+    // draft needs no writable directory.
+    public save(result: DraftResult): void {
+        const filePath = this.filePath(result.leagueId);
+        const tempPath = `${filePath}.tmp`;
+        try {
+            fs.mkdirSync(this.dir, { recursive: true });
+            fs.writeFileSync(tempPath, JSON.stringify(result, null, 2));
+            fs.renameSync(tempPath, filePath);
+            this.logger.info(`💾 Saved ${result.completed ? 'completed' : 'partial'} draft for league ${result.leagueId} (${result.picks.length} picks) to ${filePath}`);
+        } catch (error) {
+            this.logger.error(`❌ Failed to save draft for league ${result.leagueId}:`, error);
+        }
+    }
+
+    public load(leagueId: string): DraftResult | null {
+        try {
+            return JSON.parse(fs.readFileSync(this.filePath(leagueId), 'utf8')) as DraftResult;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                this.logger.error(`❌ Failed to load draft for league ${leagueId}:`, error);
+            }
+            return null;
+        }
+    }
+}
+
+function csvField(value: string | number | boolean | null): string {
+    const text = value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per pick, with the picking team's manager
+export function draftResultToCsv(result: DraftResult): string {
+    const managers = new Map(result.teams.map(team => [team.draftPosition, team.platformUserId]));
+    const header = ['league_id', 'overall_pick', 'round', 'draft_position', 'platform_user_id', 'player_id', 'picked_at', 'autopick'];
+    const rows = result.picks.map(pick => [
+        result.leagueId,
+        pick.overallPick,
+        pick.round,
+        pick.draftPosition,
+        managers.get(pick.draftPosition) ?? null,
+        pick.playerId,
+        new Date(pick.ts).toISOString(),
+        pick.autopick
+    ]);
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
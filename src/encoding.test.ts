@@ -0,0 +1,81 @@
+import { decode, encode } from '@msgpack/msgpack';
+import { ClientEncoding, ClientPayload, decodeMessagePackFrame, EncodableMessage, EncodedMessage, encodeClientMessage, parseSubprotocol, transcodeClientPayload } from './encoding';
+
+const frame: EncodableMessage = { type: 'yahoo_message', data: '4|1|1|1|p1|"quoted"\\', seq: 7 };
+const notice = { type: 'system_notice', data: { message: 'Draft starting', level: 'info' }, seq: 3 };
+
+// What a client reads back from a payload in its encoding
+const readPayload = (payload: ClientPayload, encoding: ClientEncoding): unknown => {
+    if (encoding === ClientEncoding.MessagePack) {
+        return decode(payload as Buffer);
+    }
+    const text = payload as string;
+    const lean = encoding === ClientEncoding.Lean && !text.startsWith('{') ? /^(\d*):(.*)$/s.exec(text) : null;
+    return lean ? { type: 'yahoo_message', data: lean[2], ...(lean[1] ? { seq: Number(lean[1]) } : {}) } : JSON.parse(text);
+};
+
+describe('parseSubprotocol', () => {
+    it('reads the version and encoding of a supported subprotocol', () => {
+        expect(parseSubprotocol('yahoo-proxy.v1.lean')).toEqual({ version: 1, encoding: ClientEncoding.Lean });
+        expect(parseSubprotocol('yahoo-proxy.v2.msgpack')).toEqual({ version: 2, encoding: ClientEncoding.MessagePack });
+    });
+
+    it('refuses unknown encodings and other subprotocols', () => {
+        expect(parseSubprotocol('yahoo-proxy.v1.xml')).toBeNull();
+        expect(parseSubprotocol('yahoo-proxy.1.json')).toBeNull();
+        expect(parseSubprotocol('graphql-ws')).toBeNull();
+    });
+});
+
+describe('encodeClientMessage', () => {
+    it.each(Object.values(ClientEncoding))('round-trips Yahoo frames and proxy messages in %s', (encoding) => {
+        expect(readPayload(encodeClientMessage(frame, encoding), encoding)).toEqual(frame);
+        expect(readPayload(encodeClientMessage(notice, encoding), encoding)).toEqual(notice);
+    });
+
+    it('sends lean Yahoo frames as seq and frame without the JSON envelope', () => {
+        expect(encodeClientMessage(frame, ClientEncoding.Lean)).toBe('7:4|1|1|1|p1|"quoted"\\');
+        expect(encodeClientMessage({ type: 'yahoo_message', data: 'c' }, ClientEncoding.Lean)).toBe(':c');
+        expect(encodeClientMessage(notice, ClientEncoding.Lean)).toBe(JSON.stringify(notice));
+    });
+
+    it('sends MessagePack as binary, leaving out undefined fields', () => {
+        const payload = encodeClientMessage({ type: 'yahoo_connected', data: undefined }, ClientEncoding.MessagePack);
+
+        expect(Buffer.isBuffer(payload)).toBe(true);
+        expect(decode(payload as Buffer)).toEqual({ type: 'yahoo_connected' });
+    });
+});
+
+describe('transcodeClientPayload', () => {
+    it('re-encodes the JSON form of a message for each encoding', () => {
+        const json = JSON.stringify(frame);
+
+        expect(transcodeClientPayload(json, ClientEncoding.Json)).toBe(json);
+        Object.values(ClientEncoding).forEach(encoding => {
+            expect(readPayload(transcodeClientPayload(json, encoding), encoding)).toEqual(frame);
+        });
+    });
+});
+
+describe('decodeMessagePackFrame', () => {
+    it('decodes a client message to JSON text', () => {
+        const message = { type: 'yahoo_message', data: '4|1|1|1|p1', requestId: 'r1' };
+
+        expect(JSON.parse(decodeMessagePackFrame(Buffer.from(encode(message))))).toEqual(message);
+    });
+
+    it('throws on bytes that are not MessagePack', () => {
+        expect(() => decodeMessagePackFrame(Buffer.from([0xc1]))).toThrow();
+    });
+});
+
+describe('EncodedMessage', () => {
+    it('encodes once per encoding', () => {
+        const message = new EncodedMessage(frame);
+
+        expect(message.get(ClientEncoding.MessagePack)).toBe(message.get(ClientEncoding.MessagePack));
+        expect(message.json).toBe(JSON.stringify(frame));
+        expect(message.get(ClientEncoding.Lean)).toBe('7:4|1|1|1|p1|"quoted"\\');
+    });
+});
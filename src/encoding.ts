@@ -0,0 +1,94 @@
+import { decode, encode } from '@msgpack/msgpack';
+
+// Client encodings
+// Clients choose how proxy messages reach them when they connect, with a WebSocket subprotocol
+// such as `yahoo-proxy.v1.lean` or the `protocolVersion` and `encoding` query params:
+// - json: every message is a JSON object (the default, and what clients that choose nothing get)
+// - lean: Yahoo frames are sent as `<seq>:<frame>` text without the JSON envelope, so large frames
+//   are not escaped twice; every other message is still JSON. Yahoo frames never start with '{'.
+// - msgpack: every message is the same object as in json, MessagePack-encoded in a binary frame.
+//   Such clients may also send their messages as MessagePack binary frames.
+
+export enum ClientEncoding {
+    Json = 'json',
+    Lean = 'lean',
+    MessagePack = 'msgpack'
+}
+
+export const CLIENT_ENCODINGS: ClientEncoding[] = Object.values(ClientEncoding);
+
+export type ClientPayload = string | Buffer;
+
+// The fields of a proxy message the encodings look at
+export interface EncodableMessage {
+    type: string;
+    data?: unknown;
+    seq?: number;
+}
+
+// What a client negotiated when it connected
+export interface ClientProtocol {
+    version: number;
+    encoding: ClientEncoding;
+    rawFrames: boolean; // Accepts raw Yahoo frames besides JSON messages
+}
+
+const SUBPROTOCOL_PATTERN = /^yahoo-proxy\.v(\d+)\.([a-z]+)$/;
+
+export function parseSubprotocol(subprotocol: string): { version: number; encoding: ClientEncoding } | null {
+    const match = SUBPROTOCOL_PATTERN.exec(subprotocol);
+    if (!match || !CLIENT_ENCODINGS.includes(match[2] as ClientEncoding)) {
+        return null;
+    }
+    return { version: parseInt(match[1], 10), encoding: match[2] as ClientEncoding };
+}
+
+export function encodeClientMessage(message: EncodableMessage, encoding: ClientEncoding): ClientPayload {
+    switch (encoding) {
+        case ClientEncoding.Lean:
+            if (message.type === 'yahoo_message') {
+                return `${message.seq ?? ''}:${message.data}`;
+            }
+            return JSON.stringify(message);
+        case ClientEncoding.MessagePack: {
+            const bytes = encode(message, { ignoreUndefined: true });
+            return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        }
+        default:
+            return JSON.stringify(message);
+    }
+}
+
+// Re-encodes a JSON payload, as sent to relayed clients by the owning node, for the client
+export function transcodeClientPayload(json: string, encoding: ClientEncoding): ClientPayload {
+    return encoding === ClientEncoding.Json ? json : encodeClientMessage(JSON.parse(json), encoding);
+}
+
+// Decodes a MessagePack client message to JSON text; throws if it is not valid MessagePack
+export function decodeMessagePackFrame(data: Buffer): string {
+    return JSON.stringify(decode(data));
+}
+
+// A message sent to several clients, encoded at most once per encoding
+export class EncodedMessage {
+    public readonly message: EncodableMessage;
+    private payloads: Map<ClientEncoding, ClientPayload> = new Map();
+
+    constructor(message: EncodableMessage) {
+        this.message = message;
+    }
+
+    public get(encoding: ClientEncoding): ClientPayload {
+        let payload = this.payloads.get(encoding);
+        if (payload === undefined) {
+            payload = encodeClientMessage(this.message, encoding);
+            this.payloads.set(encoding, payload);
+        }
+        return payload;
+    }
+
+    // The JSON form, which recordings and relayed clients get
+    public get json(): string {
+        return this.get(ClientEncoding.Json) as string;
+    }
+}
@@ -1,12 +1,14 @@
-import { otlpShutdown } from "./telemetry";
+import { initTelemetry, otlpShutdown } from "./telemetry";
 import { createServer } from "node:http";
 import gracefulShutdown from "http-graceful-shutdown";
 import { initApp } from "./app";
-import { Env, initConfig } from "./config";
+import { Env, initConfig, settingsNeedingRestart } from "./config";
 import { initLogging } from "./logging";
+import { ConfigError } from "./settings";
 
 const main = async () => {
     const config = await initConfig();
+    initTelemetry(config);
     const logger = await initLogging(config);
     const app = await initApp(config, logger);
     
@@ -23,15 +25,30 @@ const main = async () => {
         logger.info(`🩺 Health check: http://localhost:${config.port}/health`);
     });
 
+    // Reload the config on SIGHUP; settings that are only read at startup keep their old values
+    process.on("SIGHUP", () => {
+        initConfig().then((next) => {
+            const ignored = settingsNeedingRestart(config, next);
+            if (ignored.length > 0) {
+                logger.warn(`⚠️ Changed settings need a restart to take effect: ${ignored.join(", ")}`);
+            }
+            app.reloadConfig(next);
+        }).catch((error) => {
+            logger.error("❌ Config reload failed; keeping the current config:", error instanceof ConfigError ? error.message : error);
+        });
+    });
+
     gracefulShutdown(server, {
         timeout: config.shutdownTimeoutMs,
         development: config.env !== Env.Prod,
         preShutdown: async (signal) => {
             logger.info({ signal }, "Shutdown signal received");
+            // Runs while client sockets are still open
+            await app.drain();
         },
         onShutdown: async () => {
             await app.shutdown();
-            await otlpShutdown();
+            await otlpShutdown(logger);
         },
         finally: () => {
             logger.info("Shutdown complete");
@@ -40,6 +57,6 @@ const main = async () => {
 }
 
 main().catch((error) => {
-    console.error("Failed to start server:", error);
+    console.error("Failed to start server:", error instanceof ConfigError ? error.message : error);
     process.exit(1);
 });
\ No newline at end of file
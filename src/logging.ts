@@ -1,4 +1,5 @@
 import { Config, Env } from './config';
+import { activeTraceIds } from './telemetry';
 
 export interface Logger {
     info: (message: any, ...args: any[]) => void;
@@ -36,6 +37,8 @@ class SimpleLogger implements Logger {
             formattedMessage += ' ' + argsStr;
         }
 
+        const traceIds = activeTraceIds();
+
         if (this.isDevelopment) {
             // Colorful output for development
             const colors = {
@@ -47,13 +50,16 @@ class SimpleLogger implements Logger {
             const reset = '\x1b[0m';
             const color = colors[level as keyof typeof colors] || '';
             
-            return `${color}[${timestamp}] ${levelStr}${reset} ${formattedMessage}`;
+            const traceStr = traceIds ? ` [trace_id=${traceIds.traceId}]` : '';
+            return `${color}[${timestamp}] ${levelStr}${reset} ${formattedMessage}${traceStr}`;
         } else {
             // Structured JSON output for production
             return JSON.stringify({
                 timestamp,
                 level: level.toUpperCase(),
-                message: formattedMessage
+                message: formattedMessage,
+                trace_id: traceIds?.traceId,
+                span_id: traceIds?.spanId
             });
         }
     }
@@ -83,7 +89,7 @@ class SimpleLogger implements Logger {
     }
 }
 
-export async function initLogging(config: Config): Promise<Logger> {
+export async function initLogging(config: Pick<Config, 'env' | 'logLevel'>): Promise<Logger> {
     const isDevelopment = config.env === Env.Dev;
     return new SimpleLogger(config.logLevel, isDevelopment);
 }
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+// Prometheus metrics
+// Served in text format from GET /metrics.
+
+export type FrameDirection = 'upstream_in' | 'upstream_out' | 'client_in' | 'client_out';
+
+export const registry = new Registry();
+
+export const metrics = {
+    rooms: new Gauge({
+        name: 'proxy_rooms',
+        help: 'Active league rooms',
+        registers: [registry]
+    }),
+    clients: new Gauge({
+        name: 'proxy_clients',
+        help: 'Connected WebSocket clients',
+        registers: [registry]
+    }),
+    relayedClients: new Gauge({
+        name: 'proxy_relayed_clients',
+        help: 'Clients connected to this node whose league is owned by another node',
+        registers: [registry]
+    }),
+    eventStreamListeners: new Gauge({
+        name: 'proxy_event_stream_listeners',
+        help: 'Connected Server-Sent Events listeners',
+        registers: [registry]
+    }),
+    upstreamSockets: new Gauge({
+        name: 'proxy_upstream_open_sockets',
+        help: 'Open Yahoo WebSocket connections',
+        registers: [registry]
+    }),
+    slowClientFrames: new Counter({
+        name: 'proxy_slow_client_frames_total',
+        help: 'Frames not sent live to lagging clients, by action',
+        labelNames: ['action'] as const,
+        registers: [registry]
+    }),
+    slowClientDisconnects: new Counter({
+        name: 'proxy_slow_client_disconnects_total',
+        help: 'Clients disconnected because their send buffer grew too large',
+        registers: [registry]
+    }),
+    frames: new Counter({
+        name: 'proxy_frames_total',
+        help: 'WebSocket frames relayed, by direction',
+        labelNames: ['direction'] as const,
+        registers: [registry]
+    }),
+    bytes: new Counter({
+        name: 'proxy_bytes_total',
+        help: 'WebSocket payload bytes relayed, by direction',
+        labelNames: ['direction'] as const,
+        registers: [registry]
+    }),
+    upstreamConnects: new Counter({
+        name: 'proxy_upstream_connects_total',
+        help: 'Successful Yahoo WebSocket connections',
+        registers: [registry]
+    }),
+    upstreamDisconnects: new Counter({
+        name: 'proxy_upstream_disconnects_total',
+        help: 'Yahoo WebSocket closes, by close code',
+        labelNames: ['code'] as const,
+        registers: [registry]
+    }),
+    upstreamErrors: new Counter({
+        name: 'proxy_upstream_errors_total',
+        help: 'Yahoo WebSocket errors',
+        registers: [registry]
+    }),
+    joinMessagesSent: new Counter({
+        name: 'proxy_join_messages_sent_total',
+        help: 'Yahoo join messages sent',
+        registers: [registry]
+    }),
+    clientRejections: new Counter({
+        name: 'proxy_client_rejections_total',
+        help: 'Client connections rejected, by reason',
+        labelNames: ['reason'] as const,
+        registers: [registry]
+    }),
+    clientFramesRejected: new Counter({
+        name: 'proxy_client_frames_rejected_total',
+        help: 'Client frames refused instead of being sent to Yahoo, by reason',
+        labelNames: ['reason'] as const,
+        registers: [registry]
+    }),
+    clientMessageErrors: new Counter({
+        name: 'proxy_client_message_errors_total',
+        help: 'Client messages refused for failing the control protocol schema, by error code',
+        labelNames: ['code'] as const,
+        registers: [registry]
+    }),
+    clientHeartbeatsDropped: new Counter({
+        name: 'proxy_client_heartbeats_dropped_total',
+        help: 'Client heartbeat frames dropped for exceeding the heartbeat rate limit',
+        registers: [registry]
+    }),
+    rateLimitDisconnects: new Counter({
+        name: 'proxy_rate_limit_disconnects_total',
+        help: 'Clients disconnected for exceeding the frame rate limit past the strike limit',
+        registers: [registry]
+    }),
+    clientFramesQueued: new Counter({
+        name: 'proxy_client_frames_queued_total',
+        help: 'Client frames queued while Yahoo was connecting',
+        registers: [registry]
+    }),
+    autopicks: new Counter({
+        name: 'proxy_autopicks_total',
+        help: 'Picks the proxy handled for disconnected managers on the clock, by outcome',
+        labelNames: ['outcome'] as const,
+        registers: [registry]
+    }),
+    webhookDeliveries: new Counter({
+        name: 'proxy_webhook_deliveries_total',
+        help: 'Webhook delivery attempts, by outcome',
+        labelNames: ['outcome'] as const,
+        registers: [registry]
+    }),
+    upstreamStale: new Counter({
+        name: 'proxy_upstream_stale_total',
+        help: 'Yahoo connections recycled after going silent',
+        registers: [registry]
+    }),
+    upstreamLatencySeconds: new Histogram({
+        name: 'proxy_upstream_latency_seconds',
+        help: 'Round trip of pings to Yahoo',
+        buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+        registers: [registry]
+    }),
+    upstreamConnectSeconds: new Histogram({
+        name: 'proxy_upstream_connect_seconds',
+        help: 'Time from starting a Yahoo connection until it opens',
+        buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+        registers: [registry]
+    }),
+    broadcastSeconds: new Histogram({
+        name: 'proxy_broadcast_seconds',
+        help: 'Time to fan a message out to every client in a room',
+        buckets: [0.0001, 0.0005, 0.001, 0.005, 0.01, 0.05, 0.1],
+        registers: [registry]
+    })
+};
+
+export function recordFrame(direction: FrameDirection, payload: string | Buffer, count: number = 1): void {
+    if (count === 0) {
+        return;
+    }
+    metrics.frames.inc({ direction }, count);
+    metrics.bytes.inc({ direction }, Buffer.byteLength(payload) * count);
+}
@@ -0,0 +1,63 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { decodeYahooFrame, DraftEvent, encodeJoinFrame, encodePickFrame, isLeagueWideEvent } from './protocol';
+
+// A hand-built session in the assumed frame layouts, not a capture; see the note in the fixture
+const sessionFrames = readFileSync(join(__dirname, '__fixtures__', 'draft-session.frames'), 'utf8')
+    .split('\n')
+    .filter(line => line.length > 0 && !line.startsWith('#'));
+
+describe('decodeYahooFrame', () => {
+    it('decodes every frame of the fixture session', () => {
+        const events = sessionFrames.map(decodeYahooFrame);
+
+        expect(events.slice(0, 5)).toEqual<(DraftEvent | null)[]>([
+            { kind: 'join_ack', leagueId: '449.l.12345', draftPosition: 3 },
+            { kind: 'clock', overallPick: 1, round: 1, draftPosition: 1, secondsRemaining: 90 },
+            { kind: 'roster', draftPosition: 1, playerIds: [] },
+            { kind: 'queue', draftPosition: 3, playerIds: ['p10', 'p11', 'p12'] },
+            { kind: 'heartbeat' }
+        ]);
+        expect(events.filter(event => event?.kind === 'pick')).toEqual([
+            { kind: 'pick', overallPick: 1, round: 1, draftPosition: 1, playerId: 'p10' },
+            { kind: 'pick', overallPick: 2, round: 1, draftPosition: 2, playerId: 'p20' },
+            { kind: 'pick', overallPick: 3, round: 1, draftPosition: 3, playerId: 'p11' }
+        ]);
+        expect(events[events.length - 1]).toBeNull();
+    });
+
+    it.each([
+        ['a heartbeat with fields', 'c|1'],
+        ['a join ack without a league', '9||3'],
+        ['a pick without a player', '4|1|1|1|'],
+        ['a pick with a non-numeric round', '4|1|one|1|p1'],
+        ['a clock with negative seconds', '5|1|1|1|-5'],
+        ['a roster without a draft position', '6||p1'],
+        ['an empty frame', '']
+    ])('returns null for %s', (_description, frame) => {
+        expect(decodeYahooFrame(frame)).toBeNull();
+    });
+});
+
+describe('frame encoders', () => {
+    it('builds join frames with an encoded user agent and optional auth', () => {
+        expect(encodeJoinFrame({ leagueId: 'L1', draftPosition: 2, userAgent: 'Mozilla/5.0 (X)' })).toBe('8|L1|2|Mozilla%2F5.0%20(X)|');
+        expect(encodeJoinFrame({ leagueId: 'L1', draftPosition: 2, userAgent: 'UA', auth: 'secret' })).toBe('8|L1|2|UA|secret');
+    });
+
+    it('builds pick frames that decode back to the same pick', () => {
+        const pick = { overallPick: 14, round: 2, draftPosition: 3, playerId: 'p9' };
+
+        expect(decodeYahooFrame(encodePickFrame(pick))).toEqual({ kind: 'pick', ...pick });
+    });
+});
+
+describe('isLeagueWideEvent', () => {
+    it('shares picks, the clock and rosters but not per-manager frames', () => {
+        const kinds = sessionFrames.map(decodeYahooFrame)
+            .filter((event): event is DraftEvent => event !== null && isLeagueWideEvent(event))
+            .map(event => event.kind);
+
+        expect(new Set(kinds)).toEqual(new Set(['pick', 'clock', 'roster']));
+    });
+});
@@ -0,0 +1,154 @@
+// Yahoo draft WebSocket protocol
+// Frames are pipe-delimited strings whose first field identifies the frame type.
+//
+// Yahoo does not publish this protocol. Only two frames are confirmed, from what the proxy has
+// always sent and Yahoo has accepted: the 8 join frame and the c heartbeat. The layouts of the
+// 9, 4, 5, 6 and 7 frames below are assumptions that have not been checked against a captured
+// session; src/__fixtures__/draft-session.frames is built by hand to match them. Until they are
+// confirmed, a frame that does not fit is decoded as null and still relayed raw.
+
+export const YahooFrameCode = {
+    Join: '8',
+    JoinAck: '9',
+    Pick: '4',
+    Clock: '5',
+    Roster: '6',
+    Queue: '7',
+    Heartbeat: 'c'
+} as const;
+
+export interface JoinAckEvent {
+    kind: 'join_ack';
+    leagueId: string;
+    draftPosition: number;
+}
+
+export interface PickEvent {
+    kind: 'pick';
+    overallPick: number;
+    round: number;
+    draftPosition: number;
+    playerId: string;
+}
+
+export interface ClockEvent {
+    kind: 'clock';
+    overallPick: number;
+    round: number;
+    draftPosition: number; // Draft position currently on the clock
+    secondsRemaining: number;
+}
+
+export interface RosterEvent {
+    kind: 'roster';
+    draftPosition: number;
+    playerIds: string[];
+}
+
+export interface QueueEvent {
+    kind: 'queue';
+    draftPosition: number;
+    playerIds: string[];
+}
+
+export interface HeartbeatEvent {
+    kind: 'heartbeat';
+}
+
+export type DraftEvent = JoinAckEvent | PickEvent | ClockEvent | RosterEvent | QueueEvent | HeartbeatEvent;
+
+export interface JoinFrameParams {
+    leagueId: string;
+    draftPosition: number;
+    userAgent: string;
+    auth?: string;
+}
+
+// Join message format: 8|{LEAGUE_ID}|{DRAFT_POSITION}|{USER_AGENT}|{AUTH}
+export function encodeJoinFrame(params: JoinFrameParams): string {
+    const userAgent = encodeURIComponent(params.userAgent);
+    return [YahooFrameCode.Join, params.leagueId, params.draftPosition, userAgent, params.auth || ''].join('|');
+}
+
+// Pick message format: 4|{OVERALL_PICK}|{ROUND}|{DRAFT_POSITION}|{PLAYER_ID}
+export function encodePickFrame(pick: Omit<PickEvent, 'kind'>): string {
+    return [YahooFrameCode.Pick, pick.overallPick, pick.round, pick.draftPosition, pick.playerId].join('|');
+}
+
+export function encodeHeartbeatFrame(): string {
+    return YahooFrameCode.Heartbeat;
+}
+
+// Picks, the clock and rosters are the same for every manager in a league; join acks, queues and
+// heartbeats belong to a single manager's connection
+export function isLeagueWideEvent(event: DraftEvent): boolean {
+    return event.kind === 'pick' || event.kind === 'clock' || event.kind === 'roster';
+}
+
+function parseIntField(value: string | undefined): number | null {
+    if (value === undefined || !/^\d+$/.test(value)) {
+        return null;
+    }
+    return parseInt(value, 10);
+}
+
+function parseListField(value: string | undefined): string[] {
+    return value ? value.split(',').filter(id => id.length > 0) : [];
+}
+
+// Decodes a raw Yahoo frame. Returns null for unknown or malformed frames so callers can
+// pass them through untouched.
+export function decodeYahooFrame(frame: string): DraftEvent | null {
+    const fields = frame.split('|');
+    const code = fields[0];
+
+    switch (code) {
+        case YahooFrameCode.Heartbeat:
+            return fields.length === 1 ? { kind: 'heartbeat' } : null;
+
+        case YahooFrameCode.JoinAck: {
+            const draftPosition = parseIntField(fields[2]);
+            if (!fields[1] || draftPosition === null) {
+                return null;
+            }
+            return { kind: 'join_ack', leagueId: fields[1], draftPosition };
+        }
+
+        case YahooFrameCode.Pick: {
+            const overallPick = parseIntField(fields[1]);
+            const round = parseIntField(fields[2]);
+            const draftPosition = parseIntField(fields[3]);
+            const playerId = fields[4];
+            if (overallPick === null || round === null || draftPosition === null || !playerId) {
+                return null;
+            }
+            return { kind: 'pick', overallPick, round, draftPosition, playerId };
+        }
+
+        case YahooFrameCode.Clock: {
+            const overallPick = parseIntField(fields[1]);
+            const round = parseIntField(fields[2]);
+            const draftPosition = parseIntField(fields[3]);
+            const secondsRemaining = parseIntField(fields[4]);
+            if (overallPick === null || round === null || draftPosition === null || secondsRemaining === null) {
+                return null;
+            }
+            return { kind: 'clock', overallPick, round, draftPosition, secondsRemaining };
+        }
+
+        case YahooFrameCode.Roster:
+        case YahooFrameCode.Queue: {
+            const draftPosition = parseIntField(fields[1]);
+            if (draftPosition === null) {
+                return null;
+            }
+            const playerIds = parseListField(fields[2]);
+            return code === YahooFrameCode.Roster
+                ? { kind: 'roster', draftPosition, playerIds }
+                : { kind: 'queue', draftPosition, playerIds };
+        }
+
+        default:
+            return null;
+    }
+}
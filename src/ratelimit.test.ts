@@ -0,0 +1,72 @@
+import { FrameRateLimiter, FrameRateLimits } from './ratelimit';
+
+const limits: FrameRateLimits = { frameRate: 2, frameBurst: 3, heartbeatRate: 1, heartbeatBurst: 1, strikeLimit: 5 };
+
+const PICK = '4|1|1|1|p1';
+
+describe('FrameRateLimiter', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('allows a burst of frames, then refuses with the time until the next token', () => {
+        const limiter = new FrameRateLimiter(limits);
+
+        expect(limiter.check(PICK)).toEqual({ allowed: true });
+        expect(limiter.check(PICK)).toEqual({ allowed: true });
+        expect(limiter.check(PICK)).toEqual({ allowed: true });
+        expect(limiter.check(PICK)).toEqual({ allowed: false, kind: 'frame', retryAfterMs: 500, strikes: 1 });
+    });
+
+    it('refills at the frame rate', () => {
+        const limiter = new FrameRateLimiter(limits);
+        for (let i = 0; i < 3; i++) {
+            limiter.check(PICK);
+        }
+
+        jest.advanceTimersByTime(499);
+        expect(limiter.check(PICK).allowed).toBe(false);
+        jest.advanceTimersByTime(1);
+        expect(limiter.check(PICK).allowed).toBe(true);
+    });
+
+    it('counts strikes until the client lets its bucket refill', () => {
+        const limiter = new FrameRateLimiter(limits);
+        for (let i = 0; i < 3; i++) {
+            limiter.check(PICK);
+        }
+
+        expect(limiter.check(PICK)).toMatchObject({ strikes: 1 });
+        expect(limiter.check(PICK)).toMatchObject({ strikes: 2 });
+
+        jest.advanceTimersByTime(1500);
+        for (let i = 0; i < 3; i++) {
+            expect(limiter.check(PICK).allowed).toBe(true);
+        }
+        expect(limiter.check(PICK)).toMatchObject({ strikes: 1 });
+    });
+
+    it('limits heartbeats in their own bucket without strikes', () => {
+        const limiter = new FrameRateLimiter(limits);
+
+        expect(limiter.check('c')).toEqual({ allowed: true });
+        expect(limiter.check('c')).toEqual({ allowed: false, kind: 'heartbeat' });
+        expect(limiter.check(PICK)).toEqual({ allowed: true });
+
+        jest.advanceTimersByTime(1000);
+        expect(limiter.check('c')).toEqual({ allowed: true });
+    });
+
+    it('does not limit frames or heartbeats whose rate is 0', () => {
+        const limiter = new FrameRateLimiter({ ...limits, frameRate: 0, heartbeatRate: 0 });
+
+        for (let i = 0; i < 100; i++) {
+            expect(limiter.check(PICK)).toEqual({ allowed: true });
+            expect(limiter.check('c')).toEqual({ allowed: true });
+        }
+    });
+});
@@ -0,0 +1,90 @@
+import { YahooFrameCode } from './protocol';
+
+// Client frame rate limiting
+// Each client sending to Yahoo gets a token bucket for its frames, so a runaway frontend cannot
+// get the league's Yahoo session throttled. Heartbeats have their own bucket: every seat already
+// sends its own heartbeats upstream, so a client's extra heartbeats are dropped quietly instead of
+// being rejected. Frames over the limit count as strikes, which are forgiven once the client lets
+// its bucket refill; a client that keeps going past the strike limit is disconnected.
+
+export interface FrameRateLimits {
+    frameRate: number; // Frames per second; 0 turns frame limiting off
+    frameBurst: number;
+    heartbeatRate: number; // Heartbeats per second; 0 turns heartbeat limiting off
+    heartbeatBurst: number;
+    strikeLimit: number; // Rate-limited frames tolerated before disconnecting; 0 never disconnects
+}
+
+export type FrameRateDecision =
+    | { allowed: true }
+    | { allowed: false; kind: 'heartbeat' }
+    | { allowed: false; kind: 'frame'; retryAfterMs: number; strikes: number };
+
+export class TokenBucket {
+    private readonly rate: number; // Tokens added per second
+    private readonly burst: number;
+    private tokens: number;
+    private updatedAt: number;
+
+    constructor(rate: number, burst: number) {
+        this.rate = rate;
+        this.burst = burst;
+        this.tokens = burst;
+        this.updatedAt = Date.now();
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.burst, this.tokens + (now - this.updatedAt) * this.rate / 1000);
+        this.updatedAt = now;
+    }
+
+    public take(): boolean {
+        this.refill();
+        if (this.tokens < 1) {
+            return false;
+        }
+        this.tokens -= 1;
+        return true;
+    }
+
+    public isFull(): boolean {
+        this.refill();
+        return this.tokens >= this.burst;
+    }
+
+    // Milliseconds until the next token is available
+    public get retryAfterMs(): number {
+        this.refill();
+        return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * 1000 / this.rate);
+    }
+}
+
+export class FrameRateLimiter {
+    private readonly frames: TokenBucket | null;
+    private readonly heartbeats: TokenBucket | null;
+    private strikes: number = 0;
+
+    constructor(limits: FrameRateLimits) {
+        this.frames = limits.frameRate > 0 ? new TokenBucket(limits.frameRate, limits.frameBurst) : null;
+        this.heartbeats = limits.heartbeatRate > 0 ? new TokenBucket(limits.heartbeatRate, limits.heartbeatBurst) : null;
+    }
+
+    public check(frame: string): FrameRateDecision {
+        if (frame.split('|')[0] === YahooFrameCode.Heartbeat) {
+            return !this.heartbeats || this.heartbeats.take() ? { allowed: true } : { allowed: false, kind: 'heartbeat' };
+        }
+        if (!this.frames) {
+            return { allowed: true };
+        }
+        // A full bucket means the client slowed down since its last strike
+        if (this.frames.isFull()) {
+            this.strikes = 0;
+        }
+        if (this.frames.take()) {
+            return { allowed: true };
+        }
+        this.strikes++;
+        return { allowed: false, kind: 'frame', retryAfterMs: this.frames.retryAfterMs, strikes: this.strikes };
+    }
+}
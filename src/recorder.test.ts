@@ -0,0 +1,46 @@
+import { redactSecrets } from './recorder';
+
+describe('redactSecrets', () => {
+    it('redacts the auth field of Yahoo join frames', () => {
+        expect(redactSecrets('8|L1|3|YahooFantasyProxy%2F1.0|s3cret')).toBe('8|L1|3|YahooFantasyProxy%2F1.0|[redacted]');
+    });
+
+    it('redacts auth values that contain the field separator', () => {
+        expect(redactSecrets('8|L1|3|UA|part1|part2')).toBe('8|L1|3|UA|[redacted]');
+    });
+
+    it('leaves join frames without auth and other frames untouched', () => {
+        expect(redactSecrets('8|L1|3|UA|')).toBe('8|L1|3|UA|');
+        expect(redactSecrets('4|1|1|1|p1')).toBe('4|1|1|1|p1');
+        expect(redactSecrets('c')).toBe('c');
+    });
+
+    it('redacts JSON fields named like secrets at any depth', () => {
+        const message = JSON.stringify({
+            type: 'room_joined',
+            resumeToken: 'r-123',
+            session: { Cookie: 'a=b', apiSecret: 'x', password: 'p', draftPosition: 3 },
+            accounts: [{ authToken: 't' }]
+        });
+
+        expect(JSON.parse(redactSecrets(message))).toEqual({
+            type: 'room_joined',
+            resumeToken: '[redacted]',
+            session: { Cookie: '[redacted]', apiSecret: '[redacted]', password: '[redacted]', draftPosition: 3 },
+            accounts: [{ authToken: '[redacted]' }]
+        });
+    });
+
+    it('keeps secret-named fields that are null or absent', () => {
+        expect(redactSecrets('{"type":"room_joined","resumeToken":null}')).toBe('{"type":"room_joined","resumeToken":null}');
+    });
+
+    it('redacts join frames wrapped in JSON messages', () => {
+        expect(JSON.parse(redactSecrets('{"type":"yahoo_message","data":"8|L1|3|UA|s3cret"}')))
+            .toEqual({ type: 'yahoo_message', data: '8|L1|3|UA|[redacted]' });
+    });
+
+    it('returns text that only looks like JSON unchanged', () => {
+        expect(redactSecrets('{"auth":')).toBe('{"auth":');
+    });
+});
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { FrameDirection } from './metrics';
+import { Logger } from './logging';
+import { YahooFrameCode } from './protocol';
+
+// Draft session recorder
+// Appends every frame relayed through a room to a JSONL file, one RecordedFrame per line.
+// Credentials are redacted before they reach the disk: the auth field of Yahoo join frames and
+// any JSON field whose name looks like a secret.
+
+export interface RecordedFrame {
+    ts: number; // Epoch milliseconds
+    direction: FrameDirection;
+    clientId?: string; // Set for frames to or from a single client; absent for broadcasts
+    seat?: string; // Seat key of upstream frames and seat-only broadcasts in per-seat rooms
+    data: string;
+}
+
+const REDACTED = '[redacted]';
+
+const SECRET_FIELD_PATTERN = /auth|cookie|token|secret|password/i;
+
+// Join message format: 8|{LEAGUE_ID}|{DRAFT_POSITION}|{USER_AGENT}|{AUTH}
+function redactFrame(frame: string): string {
+    const fields = frame.split('|');
+    if (fields[0] !== YahooFrameCode.Join || fields.length < 5 || fields.slice(4).join('|') === '') {
+        return frame;
+    }
+    return [...fields.slice(0, 4), REDACTED].join('|');
+}
+
+function redactValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+        return redactFrame(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(redactValue);
+    }
+    if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, SECRET_FIELD_PATTERN.test(key) && field !== null && field !== undefined ? REDACTED : redactValue(field)]));
+    }
+    return value;
+}
+
+// Raw Yahoo frames and JSON messages with their credentials replaced
+export function redactSecrets(data: string): string {
+    if (!data.trimStart().startsWith('{')) {
+        return redactFrame(data);
+    }
+    try {
+        return JSON.stringify(redactValue(JSON.parse(data)));
+    } catch {
+        return data;
+    }
+}
+
+export class SessionRecorder {
+    public readonly filePath: string;
+    private stream: fs.WriteStream;
+    private logger: Logger;
+
+    constructor(filePath: string, logger: Logger) {
+        this.filePath = filePath;
+        this.logger = logger;
+        this.stream = fs.createWriteStream(filePath, { flags: 'a' });
+        this.stream.on('error', (error) => {
+            this.logger.error(`❌ Session recorder error for ${filePath}:`, error);
+        });
+    }
+
+    public record(direction: FrameDirection, data: string, clientId?: string, seat?: string): void {
+        const frame: RecordedFrame = { ts: Date.now(), direction, clientId, seat, data: redactSecrets(data) };
+        this.stream.write(JSON.stringify(frame) + '\n');
+    }
+
+    public close(): void {
+        this.stream.end();
+    }
+}
+
+export function createSessionRecorder(recordingDir: string, leagueId: string, logger: Logger): SessionRecorder {
+    fs.mkdirSync(recordingDir, { recursive: true });
+    const safeLeagueId = leagueId.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const fileName = `${safeLeagueId}-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`;
+    const recorder = new SessionRecorder(path.join(recordingDir, fileName), logger);
+    logger.info(`⏺️ Recording room ${leagueId} to ${recorder.filePath}`);
+    return recorder;
+}
+
+export function readRecording(filePath: string): RecordedFrame[] {
+    return fs.readFileSync(filePath, 'utf8')
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .map(line => JSON.parse(line) as RecordedFrame);
+}
@@ -0,0 +1,120 @@
+import RedisMock from 'ioredis-mock';
+import { NodeMessage, RedisRoomRegistry } from './registry';
+
+const logger = { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('RedisRoomRegistry', () => {
+    let keyPrefix: string;
+    let registries: RedisRoomRegistry[];
+
+    // Mock instances share one keyspace, like nodes sharing one Redis; a prefix per test keeps
+    // tests apart
+    const createRegistry = (nodeId: string, leaseMs: number = 10000) => {
+        const registry = new RedisRoomRegistry(new RedisMock(), nodeId, leaseMs, logger, keyPrefix);
+        registries.push(registry);
+        return registry;
+    };
+
+    beforeEach(() => {
+        keyPrefix = `test-${Math.random().toString(36).slice(2)}`;
+        registries = [];
+    });
+
+    afterEach(async () => {
+        await Promise.all(registries.map(registry => registry.close()));
+    });
+
+    it('claims a free league for the acquiring node', async () => {
+        const a = createRegistry('a');
+
+        expect(await a.acquire('L1')).toBe('a');
+        expect(await a.ownerOf('L1')).toBe('a');
+    });
+
+    it('returns the current owner to other nodes without taking the lease', async () => {
+        const a = createRegistry('a');
+        const b = createRegistry('b');
+
+        await a.acquire('L1');
+
+        expect(await b.acquire('L1')).toBe('a');
+        expect(await b.ownerOf('L1')).toBe('a');
+    });
+
+    it('renews the lease when the owner acquires again', async () => {
+        const a = createRegistry('a', 100);
+        const b = createRegistry('b', 100);
+
+        await a.acquire('L1');
+        await sleep(60);
+        await a.acquire('L1');
+        await sleep(60);
+
+        expect(await b.acquire('L1')).toBe('a');
+    });
+
+    it('lets another node claim a league whose lease expired', async () => {
+        const a = createRegistry('a', 50);
+        const b = createRegistry('b', 50);
+
+        await a.acquire('L1');
+        await sleep(80);
+
+        expect(await a.ownerOf('L1')).toBeNull();
+        expect(await b.acquire('L1')).toBe('b');
+    });
+
+    it('frees the league when the owner releases it', async () => {
+        const a = createRegistry('a');
+        const b = createRegistry('b');
+
+        await a.acquire('L1');
+        await a.release('L1');
+
+        expect(await a.ownerOf('L1')).toBeNull();
+        expect(await b.acquire('L1')).toBe('b');
+    });
+
+    it('ignores a release from a node that does not own the league', async () => {
+        const a = createRegistry('a');
+        const b = createRegistry('b');
+
+        await a.acquire('L1');
+        await b.release('L1');
+
+        expect(await b.ownerOf('L1')).toBe('a');
+    });
+
+    it('relays messages to the handlers of the addressed node with the sender', async () => {
+        const a = createRegistry('a');
+        const b = createRegistry('b');
+        const c = createRegistry('c');
+        const received = jest.fn();
+        const notAddressed = jest.fn();
+        b.onMessage(received);
+        c.onMessage(notAddressed);
+        await sleep(10); // Subscriptions are set up in the background
+
+        const message: NodeMessage = { type: 'client.frame', clientId: 'client-1', data: '4|1|1|1|p1' };
+        await a.send('b', message);
+        await sleep(10);
+
+        expect(received).toHaveBeenCalledWith('a', message);
+        expect(notAddressed).not.toHaveBeenCalled();
+    });
+
+    it('drops malformed node messages', async () => {
+        const a = createRegistry('a');
+        const received = jest.fn();
+        a.onMessage(received);
+        await sleep(10);
+
+        await new RedisMock().publish(`${keyPrefix}:node:a`, 'not json');
+        await sleep(10);
+
+        expect(received).not.toHaveBeenCalled();
+        expect(logger.warn).toHaveBeenCalledWith('⚠️ Ignoring malformed node message:', 'not json');
+    });
+});
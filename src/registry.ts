@@ -0,0 +1,218 @@
+import Redis from 'ioredis';
+import WebSocket from 'ws';
+import { ClientRole } from './auth';
+import { ClientPayload, ClientProtocol } from './encoding';
+import { Logger } from './logging';
+
+// Room registry
+// Decides which proxy node owns each league and carries messages between nodes. The owning node
+// holds the league's room and Yahoo connections. A client that connects to any other node is
+// relayed: its join, frames and close are forwarded to the owner, and whatever the room sends the
+// client is published back to the relaying node. The in-memory registry serves a single node; the
+// Redis registry lets replicas behind a load balancer share leagues.
+
+// Everything the owning node needs to attach a client connected elsewhere
+export interface ClientJoin {
+    leagueId: string;
+    draftPosition: number;
+    yahooWebSocketUrl: string;
+    platformUserId: string;
+    auth?: string;
+    role: ClientRole;
+    draftEvents: boolean;
+    protocol: ClientProtocol;
+    resumeToken: string | null;
+    lastSeq: number | null; // null when not resuming
+}
+
+// client.* messages go from the relaying node to the owner, server.* messages back. clientId is
+// the ID the relaying node gave the connection.
+export type NodeMessage =
+    | { type: 'client.join'; clientId: string; join: ClientJoin }
+    | { type: 'client.frame'; clientId: string; data: string }
+    | { type: 'client.close'; clientId: string; code: number; reason: string }
+    | { type: 'server.send'; clientId: string; data: string }
+    | { type: 'server.close'; clientId: string; code: number; reason: string };
+
+export type NodeMessageHandler = (fromNodeId: string, message: NodeMessage) => void;
+
+export interface RoomRegistry {
+    readonly nodeId: string;
+    // Returns the node owning the league, claiming it for this node if no node does. Calling it
+    // for a league this node owns renews the lease.
+    acquire(leagueId: string): Promise<string>;
+    ownerOf(leagueId: string): Promise<string | null>;
+    // Gives up this node's lease on the league; a no-op if another node owns it
+    release(leagueId: string): Promise<void>;
+    send(nodeId: string, message: NodeMessage): Promise<void>;
+    onMessage(handler: NodeMessageHandler): void;
+    close(): Promise<void>;
+}
+
+// The parts of a client WebSocket a room uses
+export interface ClientSocket {
+    readonly readyState: number;
+    readonly bufferedAmount: number;
+    send(data: ClientPayload): void;
+    close(code?: number, reason?: string): void;
+}
+
+// A client connected to another node, as seen by the room on the owning node
+export class RemoteClientSocket implements ClientSocket {
+    public readonly nodeId: string;
+    public readonly clientId: string;
+    public readonly bufferedAmount: number = 0; // Frames are buffered on the relaying node
+    private state: number = WebSocket.OPEN;
+    private registry: RoomRegistry;
+    private logger: Logger;
+
+    constructor(registry: RoomRegistry, nodeId: string, clientId: string, logger: Logger) {
+        this.registry = registry;
+        this.nodeId = nodeId;
+        this.clientId = clientId;
+        this.logger = logger;
+    }
+
+    public get readyState(): number {
+        return this.state;
+    }
+
+    // Rooms send relayed clients JSON; their own node encodes it for them
+    public send(data: string): void {
+        if (this.state === WebSocket.OPEN) {
+            this.forward({ type: 'server.send', clientId: this.clientId, data });
+        }
+    }
+
+    public close(code: number = 1000, reason: string = ''): void {
+        if (this.state === WebSocket.OPEN) {
+            this.state = WebSocket.CLOSING;
+            this.forward({ type: 'server.close', clientId: this.clientId, code, reason });
+        }
+    }
+
+    // The client closed on its own node
+    public markClosed(): void {
+        this.state = WebSocket.CLOSED;
+    }
+
+    private forward(message: NodeMessage): void {
+        this.registry.send(this.nodeId, message).catch(error => {
+            this.logger.error(`❌ Failed to forward ${message.type} to client ${this.clientId} on node ${this.nodeId}:`, error);
+        });
+    }
+}
+
+// Single node: every league is local
+export class InMemoryRoomRegistry implements RoomRegistry {
+    public readonly nodeId: string;
+
+    constructor(nodeId: string) {
+        this.nodeId = nodeId;
+    }
+
+    public async acquire(leagueId: string): Promise<string> {
+        return this.nodeId;
+    }
+
+    public async ownerOf(leagueId: string): Promise<string | null> {
+        return this.nodeId;
+    }
+
+    public async release(leagueId: string): Promise<void> {}
+
+    public async send(nodeId: string, message: NodeMessage): Promise<void> {
+        throw new Error(`Cannot send ${message.type} to node ${nodeId}: the in-memory registry has no other nodes`);
+    }
+
+    public onMessage(handler: NodeMessageHandler): void {}
+
+    public async close(): Promise<void> {}
+}
+
+// Sets the lease if it is free or already ours; returns the owner
+const ACQUIRE_SCRIPT = `
+local owner = redis.call('get', KEYS[1])
+if not owner or owner == ARGV[1] then
+    redis.call('set', KEYS[1], ARGV[1], 'PX', ARGV[2])
+    return ARGV[1]
+end
+return owner`;
+
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('del', KEYS[1])
+end
+return 0`;
+
+// Ownership is a lease key per league that expires unless the owner renews it, so the leagues of
+// a node that dies can be claimed by others. Each node subscribes to its own pub/sub channel.
+export class RedisRoomRegistry implements RoomRegistry {
+    public readonly nodeId: string;
+    private redis: Redis;
+    private subscriber: Redis;
+    private handlers: NodeMessageHandler[] = [];
+    private readonly leaseMs: number;
+    private readonly keyPrefix: string;
+    private logger: Logger;
+
+    constructor(redis: Redis, nodeId: string, leaseMs: number, logger: Logger, keyPrefix: string = 'yahoo-proxy') {
+        this.redis = redis;
+        this.nodeId = nodeId;
+        this.leaseMs = leaseMs;
+        this.keyPrefix = keyPrefix;
+        this.logger = logger;
+
+        this.redis.on('error', (error) => this.logger.error('❌ Redis registry error:', error));
+        // A connection in subscriber mode cannot run other commands
+        this.subscriber = redis.duplicate();
+        this.subscriber.on('error', (error) => this.logger.error('❌ Redis registry subscriber error:', error));
+        this.subscriber.on('message', (channel: string, payload: string) => this.dispatch(payload));
+        this.subscriber.subscribe(this.channel(nodeId)).catch(error => {
+            this.logger.error(`❌ Failed to subscribe to node channel ${this.channel(nodeId)}:`, error);
+        });
+    }
+
+    private leaseKey(leagueId: string): string {
+        return `${this.keyPrefix}:league:${leagueId}:owner`;
+    }
+
+    private channel(nodeId: string): string {
+        return `${this.keyPrefix}:node:${nodeId}`;
+    }
+
+    public async acquire(leagueId: string): Promise<string> {
+        return await this.redis.eval(ACQUIRE_SCRIPT, 1, this.leaseKey(leagueId), this.nodeId, this.leaseMs) as string;
+    }
+
+    public async ownerOf(leagueId: string): Promise<string | null> {
+        return this.redis.get(this.leaseKey(leagueId));
+    }
+
+    public async release(leagueId: string): Promise<void> {
+        await this.redis.eval(RELEASE_SCRIPT, 1, this.leaseKey(leagueId), this.nodeId);
+    }
+
+    public async send(nodeId: string, message: NodeMessage): Promise<void> {
+        await this.redis.publish(this.channel(nodeId), JSON.stringify({ from: this.nodeId, message }));
+    }
+
+    public onMessage(handler: NodeMessageHandler): void {
+        this.handlers.push(handler);
+    }
+
+    private dispatch(payload: string): void {
+        let envelope: { from: string; message: NodeMessage };
+        try {
+            envelope = JSON.parse(payload);
+        } catch (error) {
+            this.logger.warn('⚠️ Ignoring malformed node message:', payload);
+            return;
+        }
+        this.handlers.forEach(handler => handler(envelope.from, envelope.message));
+    }
+
+    public async close(): Promise<void> {
+        await Promise.all([this.subscriber.quit(), this.redis.quit()]);
+    }
+}
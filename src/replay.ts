@@ -0,0 +1,145 @@
+import WebSocket, { WebSocketServer } from 'ws';
+import { Env } from './config';
+import { initLogging, Logger } from './logging';
+import { readRecording, RecordedFrame } from './recorder';
+import { YahooFrameCode } from './protocol';
+
+// Replay server
+// Impersonates the Yahoo draft WebSocket endpoint by playing back the upstream frames of a
+// session recording. Point a client's websocketUrl at ws://localhost:<port> to use it.
+//
+// Usage: node dist/replay.js <recording.jsonl> [--port 4000] [--speed 1]
+// --speed 10 plays ten times faster; --speed 0 sends every frame without delay. Recordings of
+// per-seat rooms play back the seat whose draft position matches the client's join message.
+
+export interface ReplayOptions {
+    filePath: string;
+    port: number;
+    speed: number;
+}
+
+function isJoinFrame(frame: RecordedFrame): boolean {
+    return frame.direction === 'upstream_out' && frame.data.startsWith(`${YahooFrameCode.Join}|`);
+}
+
+// Join message format: 8|{LEAGUE_ID}|{DRAFT_POSITION}|...
+function joinDraftPosition(joinMessage: string): string | undefined {
+    return joinMessage.split('|')[2];
+}
+
+// Picks the recorded join for a client's join message and the Yahoo frames that followed it on
+// the same seat. Yahoo only starts talking after the join message, so playback is timed from it.
+function selectUpstreamFrames(recording: RecordedFrame[], joinMessage?: string): { joinFrame?: RecordedFrame; frames: RecordedFrame[] } {
+    const joinFrames = recording.filter(isJoinFrame);
+    const joinFrame = (joinMessage && joinFrames.find(frame => joinDraftPosition(frame.data) === joinDraftPosition(joinMessage))) || joinFrames[0];
+    const frames = recording.filter(frame => frame.direction === 'upstream_in'
+        && frame.seat === joinFrame?.seat
+        && (!joinFrame || frame.ts >= joinFrame.ts));
+    return { joinFrame, frames };
+}
+
+export function startReplayServer(options: ReplayOptions, logger: Logger): WebSocketServer {
+    const recording = readRecording(options.filePath);
+    const hasJoinFrame = recording.some(isJoinFrame);
+
+    logger.info(`📼 Loaded ${recording.filter(frame => frame.direction === 'upstream_in').length} upstream frames from ${options.filePath}`);
+
+    const wss = new WebSocketServer({ port: options.port });
+
+    wss.on('connection', (ws: WebSocket) => {
+        let timer: NodeJS.Timeout | null = null;
+        let started = false;
+        let upstreamFrames: RecordedFrame[] = [];
+
+        const playFrom = (index: number, previousTs: number) => {
+            if (index >= upstreamFrames.length) {
+                logger.info(`✅ Replay complete (${upstreamFrames.length} frames)`);
+                return;
+            }
+
+            const frame = upstreamFrames[index];
+            const delayMs = options.speed > 0 ? Math.max(0, frame.ts - previousTs) / options.speed : 0;
+            timer = setTimeout(() => {
+                if (ws.readyState !== WebSocket.OPEN) {
+                    return;
+                }
+                ws.send(frame.data);
+                playFrom(index + 1, frame.ts);
+            }, delayMs);
+        };
+
+        const start = (joinMessage?: string) => {
+            if (started) {
+                return;
+            }
+            started = true;
+            const selected = selectUpstreamFrames(recording, joinMessage);
+            upstreamFrames = selected.frames;
+            logger.info(`▶️ Starting replay of ${upstreamFrames.length} frames${selected.joinFrame?.seat ? ` for seat ${selected.joinFrame.seat}` : ''} at ${options.speed > 0 ? `${options.speed}x` : 'full'} speed`);
+            const baseTs = selected.joinFrame ? selected.joinFrame.ts : (upstreamFrames[0]?.ts ?? 0);
+            playFrom(0, baseTs);
+        };
+
+        logger.info('🔗 Replay client connected');
+
+        ws.on('message', (data: WebSocket.RawData) => {
+            const message = data.toString();
+            logger.debug('📨 Replay client message:', message);
+            if (message.startsWith(`${YahooFrameCode.Join}|`)) {
+                start(message);
+            }
+        });
+
+        ws.on('close', () => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            logger.info('🔌 Replay client disconnected');
+        });
+
+        if (!hasJoinFrame) {
+            start();
+        }
+    });
+
+    logger.info(`📡 Replay server listening on ws://localhost:${options.port}`);
+    return wss;
+}
+
+function parseArgs(argv: string[]): ReplayOptions {
+    const options: ReplayOptions = { filePath: '', port: 4000, speed: 1 };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--port') {
+            options.port = parseInt(argv[++i], 10);
+        } else if (arg === '--speed') {
+            options.speed = parseFloat(argv[++i]);
+        } else {
+            options.filePath = arg;
+        }
+    }
+
+    if (!options.filePath) {
+        throw new Error('Usage: replay <recording.jsonl> [--port 4000] [--speed 1]');
+    }
+    if (isNaN(options.port) || options.port < 1 || options.port > 65535) {
+        throw new Error(`Invalid port: ${options.port}`);
+    }
+    if (isNaN(options.speed) || options.speed < 0) {
+        throw new Error(`Invalid speed: ${options.speed}`);
+    }
+
+    return options;
+}
+
+if (require.main === module) {
+    (async () => {
+        const options = parseArgs(process.argv.slice(2));
+        const logger = await initLogging({ env: Env.Dev, logLevel: process.env.LOG_LEVEL || 'info' });
+        startReplayServer(options, logger);
+    })().catch((error) => {
+        console.error('Failed to start replay server:', error);
+        process.exit(1);
+    });
+}
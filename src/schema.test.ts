@@ -0,0 +1,70 @@
+import { ClientMessageError, parseClientMessage, parseIntegerParam } from './schema';
+
+const failure = (raw: string, version?: number): ClientMessageError => {
+    try {
+        parseClientMessage(raw, version);
+    } catch (error) {
+        if (error instanceof ClientMessageError) {
+            return error;
+        }
+        throw error;
+    }
+    throw new Error(`Expected ${raw} to be refused`);
+};
+
+describe('parseClientMessage', () => {
+    it('accepts each message type of the current protocol', () => {
+        expect(parseClientMessage('{"type":"yahoo_message","data":"4|1|1|1|p1","requestId":"r1"}'))
+            .toEqual({ type: 'yahoo_message', data: '4|1|1|1|p1', requestId: 'r1' });
+        expect(parseClientMessage('{"type":"yahoo_reconnect","data":{"leagueId":"449.l.1","draftPosition":2}}'))
+            .toEqual({ type: 'yahoo_reconnect', data: { leagueId: '449.l.1', draftPosition: 2 } });
+        expect(parseClientMessage('{"type":"autopick","data":{"playerIds":["p1","p2"],"enabled":true}}'))
+            .toEqual({ type: 'autopick', data: { playerIds: ['p1', 'p2'], enabled: true } });
+        expect(parseClientMessage('{"type":"upstream_status"}')).toEqual({ type: 'upstream_status' });
+    });
+
+    it('refuses text that does not parse as JSON', () => {
+        expect(failure('{"type":').code).toBe('malformed_json');
+    });
+
+    it('refuses messages that are not objects with a string type', () => {
+        expect(failure('[1,2]').code).toBe('invalid_message');
+        expect(failure('{"type":7}').code).toBe('invalid_message');
+    });
+
+    it('refuses unknown types and protocol versions', () => {
+        expect(failure('{"type":"kick"}').code).toBe('unknown_type');
+        expect(failure('{"type":"yahoo_message","data":"c"}', 99).code).toBe('unknown_type');
+    });
+
+    it('refuses unknown fields, naming the field', () => {
+        const error = failure('{"type":"autopick","data":{"enabled":true,"limit":3}}');
+
+        expect(error.code).toBe('unknown_field');
+        expect(error.field).toBe('data.limit');
+    });
+
+    it('refuses missing and mistyped fields, naming the field', () => {
+        expect(failure('{"type":"yahoo_message"}')).toMatchObject({ code: 'invalid_field', field: 'data' });
+        expect(failure('{"type":"yahoo_message","data":""}')).toMatchObject({ code: 'invalid_field', field: 'data' });
+        expect(failure('{"type":"yahoo_reconnect","data":{"leagueId":"a/b","draftPosition":1}}')).toMatchObject({ code: 'invalid_field', field: 'data.leagueId' });
+        expect(failure('{"type":"yahoo_reconnect","data":{"leagueId":"L1","draftPosition":101}}')).toMatchObject({ code: 'invalid_field', field: 'data.draftPosition' });
+        expect(failure('{"type":"autopick","data":{"playerIds":["p1",""]}}')).toMatchObject({ code: 'invalid_field', field: 'data.playerIds' });
+    });
+
+    it('echoes a valid request ID in errors and refuses an overlong one', () => {
+        expect(failure('{"type":"yahoo_message","data":5,"requestId":"r9"}').requestId).toBe('r9');
+        expect(failure(`{"type":"yahoo_message","data":"c","requestId":"${'x'.repeat(129)}"}`)).toMatchObject({ code: 'invalid_field', field: 'requestId', requestId: undefined });
+    });
+});
+
+describe('parseIntegerParam', () => {
+    it('parses non-negative integers and refuses anything else', () => {
+        expect(parseIntegerParam('0')).toBe(0);
+        expect(parseIntegerParam('42')).toBe(42);
+        expect(parseIntegerParam(null)).toBeNull();
+        expect(parseIntegerParam('')).toBeNull();
+        expect(parseIntegerParam('3abc')).toBeNull();
+        expect(parseIntegerParam('-1')).toBeNull();
+    });
+});
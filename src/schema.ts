@@ -0,0 +1,161 @@
+// Client control protocol
+// JSON messages from clients are checked against the schema of the connection's protocol version
+// before the proxy acts on them; anything else is refused with a ClientMessageError, which is
+// sent back to the client as an `error` message. Schemas are strict: unknown types and unknown
+// fields are errors, not ignored.
+
+export const CLIENT_PROTOCOL_VERSION = 1;
+
+export interface ReconnectData {
+    leagueId: string;
+    draftPosition: number;
+}
+
+export interface AutopickData {
+    playerIds?: string[];
+    enabled?: boolean;
+}
+
+export type ClientMessage =
+    | { type: 'yahoo_message'; data: string; requestId?: string } // requestId is echoed back in the yahoo_ack
+    | { type: 'yahoo_reconnect'; data: ReconnectData }
+    | { type: 'autopick'; data: AutopickData }
+    | { type: 'upstream_status' }; // Asks for the upstream_status of the client's seat
+
+export type ClientErrorCode =
+    | 'malformed_json' // Starts like JSON but does not parse
+    | 'malformed_msgpack' // A binary frame from a MessagePack client that does not decode
+    | 'raw_frames_disabled' // A raw Yahoo frame from a client that did not opt in to raw passthrough
+    | 'invalid_message' // Not an object, or no string type
+    | 'unknown_type'
+    | 'invalid_field'
+    | 'unknown_field';
+
+export class ClientMessageError extends Error {
+    public readonly code: ClientErrorCode;
+    public readonly field?: string; // Path of the offending field, e.g. data.playerIds
+    public readonly requestId?: string;
+
+    constructor(code: ClientErrorCode, message: string, field?: string, requestId?: string) {
+        super(message);
+        this.name = 'ClientMessageError';
+        this.code = code;
+        this.field = field;
+        this.requestId = requestId;
+    }
+}
+
+// League IDs are used in room IDs, Redis keys and file names
+const LEAGUE_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+// Yahoo drafts have at most a few dozen teams
+export const MAX_DRAFT_POSITION = 100;
+
+const MAX_REQUEST_ID_LENGTH = 128;
+
+export function isValidLeagueId(value: unknown): value is string {
+    return typeof value === 'string' && LEAGUE_ID_PATTERN.test(value);
+}
+
+export function isValidDraftPosition(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_DRAFT_POSITION;
+}
+
+// Query params are all-digit strings or invalid; parseInt would accept "3abc" and "" would become 0
+export function parseIntegerParam(value: string | null): number | null {
+    return value !== null && /^\d{1,15}$/.test(value) ? parseInt(value, 10) : null;
+}
+
+type FieldCheck = (value: unknown) => boolean;
+
+interface FieldSchema {
+    check: FieldCheck;
+    expected: string; // Completes "<field> must be ..."
+    optional?: boolean;
+}
+
+interface MessageSchema {
+    fields: Record<string, FieldSchema>;
+    data?: Record<string, FieldSchema>; // Fields of an object data
+}
+
+const isString: FieldCheck = value => typeof value === 'string' && value.length > 0;
+const isRequestId: FieldCheck = value => isString(value) && (value as string).length <= MAX_REQUEST_ID_LENGTH;
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const SCHEMAS: Record<number, Record<string, MessageSchema>> = {
+    1: {
+        yahoo_message: {
+            fields: {
+                data: { check: isString, expected: 'a non-empty string' },
+                requestId: { check: isRequestId, expected: `a string of 1 to ${MAX_REQUEST_ID_LENGTH} characters`, optional: true }
+            }
+        },
+        yahoo_reconnect: {
+            fields: {
+                data: { check: isObject, expected: 'an object' }
+            },
+            data: {
+                leagueId: { check: isValidLeagueId, expected: 'a league ID' },
+                draftPosition: { check: isValidDraftPosition, expected: `an integer from 1 to ${MAX_DRAFT_POSITION}` }
+            }
+        },
+        autopick: {
+            fields: {
+                data: { check: isObject, expected: 'an object' }
+            },
+            data: {
+                playerIds: { check: value => Array.isArray(value) && value.every(isString), expected: 'an array of non-empty strings', optional: true },
+                enabled: { check: value => typeof value === 'boolean', expected: 'a boolean', optional: true }
+            }
+        },
+        upstream_status: {
+            fields: {}
+        }
+    }
+};
+
+export function isSupportedProtocolVersion(version: number): boolean {
+    return SCHEMAS[version] !== undefined;
+}
+
+function checkFields(object: Record<string, unknown>, schema: Record<string, FieldSchema>, prefix: string, ignored: string[], requestId?: string): void {
+    for (const key of Object.keys(object)) {
+        if (!ignored.includes(key) && !(key in schema)) {
+            throw new ClientMessageError('unknown_field', `Unknown field ${prefix}${key}`, `${prefix}${key}`, requestId);
+        }
+    }
+    for (const [key, { check, expected, optional }] of Object.entries(schema)) {
+        if (object[key] === undefined ? !optional : !check(object[key])) {
+            throw new ClientMessageError('invalid_field', `${prefix}${key} must be ${expected}`, `${prefix}${key}`, requestId);
+        }
+    }
+}
+
+// Parses a JSON client message and checks it against the schema of the protocol version.
+// Throws ClientMessageError when it does not match.
+export function parseClientMessage(raw: string, version: number = CLIENT_PROTOCOL_VERSION): ClientMessage {
+    let message: unknown;
+    try {
+        message = JSON.parse(raw);
+    } catch {
+        throw new ClientMessageError('malformed_json', 'Message is not valid JSON');
+    }
+
+    if (!isObject(message) || typeof message.type !== 'string') {
+        throw new ClientMessageError('invalid_message', 'Message must be a JSON object with a string type');
+    }
+    // Echoed in the error even when the rest of the message is invalid
+    const requestId = isRequestId(message.requestId) ? message.requestId as string : undefined;
+
+    const schema = SCHEMAS[version]?.[message.type];
+    if (!schema) {
+        throw new ClientMessageError('unknown_type', `Unknown message type: ${message.type}`, 'type', requestId);
+    }
+    checkFields(message, schema.fields, '', ['type'], requestId);
+    if (schema.data) {
+        // The data field's own check has already required an object
+        checkFields(message.data as Record<string, unknown>, schema.data, 'data.', [], requestId);
+    }
+    return message as ClientMessage;
+}
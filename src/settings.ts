@@ -0,0 +1,201 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// Configuration sources
+// Every setting is named by its environment variable, e.g. CLIENT_FRAME_RATE. It can also be set
+// in a YAML or JSON config file under its camelCase name (clientFrameRate) and with a command line
+// flag in kebab-case (--client-frame-rate=5). Flags win over the environment, which wins over the
+// file, which wins over the defaults. The file is named with --config or CONFIG_FILE; its
+// `leagues` block holds settings for single leagues, keyed by league ID.
+
+export class ConfigError extends Error {
+    public readonly problems: string[];
+
+    constructor(problems: string[]) {
+        super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+        this.name = 'ConfigError';
+        this.problems = problems;
+    }
+}
+
+// clientFrameRate or CLIENT_FRAME_RATE -> CLIENT_FRAME_RATE
+function settingName(key: string): string {
+    return /^[A-Z0-9_]+$/.test(key) ? key : key.replace(/([A-Z])/g, '_$1').toUpperCase();
+}
+
+interface SettingValue {
+    value: string;
+    origin: string; // Where the value was set, for error messages
+}
+
+type SettingValues = Map<string, SettingValue>; // Map<name, SettingValue>
+
+// The settings of one file object. Lists may be YAML sequences; they are read like the
+// comma-separated lists of the environment.
+function fileValues(object: Record<string, unknown>, label: (key: string) => string, problems: string[]): SettingValues {
+    const values: SettingValues = new Map();
+    for (const [key, value] of Object.entries(object)) {
+        if (value === null || value === undefined) {
+            continue;
+        }
+        const isScalar = (item: unknown) => ['string', 'number', 'boolean'].includes(typeof item);
+        if (isScalar(value)) {
+            values.set(settingName(key), { value: String(value), origin: label(key) });
+        } else if (Array.isArray(value) && value.every(isScalar)) {
+            values.set(settingName(key), { value: value.join(','), origin: label(key) });
+        } else {
+            problems.push(`${label(key)} must be a string, number, boolean or list`);
+        }
+    }
+    return values;
+}
+
+export interface ConfigSources {
+    configFile?: string;
+    flags: SettingValues;
+    env: NodeJS.ProcessEnv;
+    file: SettingValues;
+    leagues: Map<string, SettingValues>; // Map<leagueId, SettingValues> from the file's leagues block
+}
+
+// Flags are --name=value or --name value; a flag without a value is set to true
+function parseFlags(argv: string[], problems: string[]): SettingValues {
+    const flags: SettingValues = new Map();
+    for (let i = 0; i < argv.length; i++) {
+        const match = /^--([a-z0-9-]+)(?:=(.*))?$/.exec(argv[i]);
+        if (!match) {
+            problems.push(`Unexpected argument ${argv[i]}`);
+            continue;
+        }
+        let value = match[2];
+        if (value === undefined) {
+            value = i + 1 < argv.length && !argv[i + 1].startsWith('--') ? argv[++i] : 'true';
+        }
+        flags.set(match[1].replace(/-/g, '_').toUpperCase(), { value, origin: `--${match[1]}` });
+    }
+    return flags;
+}
+
+async function parseConfigFile(configFile: string): Promise<unknown> {
+    const text = await readFile(configFile, 'utf8');
+    switch (path.extname(configFile).toLowerCase()) {
+        case '.json':
+            return JSON.parse(text);
+        case '.yaml':
+        case '.yml':
+            return parseYaml(text);
+        default:
+            throw new Error('must end in .json, .yaml or .yml');
+    }
+}
+
+export async function loadConfigSources(argv: string[], env: NodeJS.ProcessEnv, problems: string[]): Promise<ConfigSources> {
+    const flags = parseFlags(argv, problems);
+    const configFile = flags.get('CONFIG')?.value ?? env.CONFIG_FILE;
+    flags.delete('CONFIG');
+    const sources: ConfigSources = { configFile, flags, env, file: new Map(), leagues: new Map() };
+    if (!configFile) {
+        return sources;
+    }
+
+    let contents: unknown;
+    try {
+        contents = await parseConfigFile(configFile);
+    } catch (error) {
+        problems.push(`Cannot read config file ${configFile}: ${error instanceof Error ? error.message : error}`);
+        return sources;
+    }
+    const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+    if (!isObject(contents)) {
+        problems.push(`Config file ${configFile} must hold an object of settings`);
+        return sources;
+    }
+
+    const { leagues, ...settings } = contents;
+    sources.file = fileValues(settings, key => `${key} in ${configFile}`, problems);
+    if (leagues !== undefined && !isObject(leagues)) {
+        problems.push(`leagues in ${configFile} must map league IDs to settings`);
+    } else if (leagues) {
+        for (const [leagueId, overrides] of Object.entries(leagues)) {
+            if (!isObject(overrides)) {
+                problems.push(`leagues.${leagueId} in ${configFile} must be an object of settings`);
+                continue;
+            }
+            sources.leagues.set(leagueId, fileValues(overrides, key => `leagues.${leagueId}.${key} in ${configFile}`, problems));
+        }
+    }
+    return sources;
+}
+
+// Reads typed settings from a set of sources. Values that do not parse are reported to problems
+// and replaced by the fallback, so every problem is found in one pass.
+export class SettingReader {
+    private readonly lookup: (name: string) => SettingValue | undefined;
+    private readonly problems: string[];
+    private readonly readNames: Set<string> = new Set();
+
+    constructor(lookup: (name: string) => SettingValue | undefined, problems: string[]) {
+        this.lookup = lookup;
+        this.problems = problems;
+    }
+
+    // Flags, then the environment, then the config file
+    public static fromSources(sources: ConfigSources, problems: string[]): SettingReader {
+        return new SettingReader(name => {
+            const envValue = sources.env[name];
+            return sources.flags.get(name)
+                ?? (envValue !== undefined && envValue !== '' ? { value: envValue, origin: `environment variable ${name}` } : undefined)
+                ?? sources.file.get(name);
+        }, problems);
+    }
+
+    private get(name: string): SettingValue | undefined {
+        this.readNames.add(name);
+        return this.lookup(name);
+    }
+
+    // The given values this reader was never asked for
+    public unread(values: SettingValues): SettingValue[] {
+        return Array.from(values.entries()).filter(([name]) => !this.readNames.has(name)).map(([, value]) => value);
+    }
+
+    public string(name: string): string | undefined;
+    public string(name: string, fallback: string): string;
+    public string(name: string, fallback?: string): string | undefined {
+        return this.get(name)?.value ?? fallback;
+    }
+
+    public list(name: string, fallback: string): string[] {
+        return this.string(name, fallback).split(',').map(item => item.trim()).filter(item => item.length > 0);
+    }
+
+    public int(name: string, fallback: number): number {
+        return this.parse(name, fallback, 'an integer', value => /^-?\d+$/.test(value) ? parseInt(value, 10) : null);
+    }
+
+    public float(name: string, fallback: number): number {
+        return this.parse(name, fallback, 'a number', value => value.trim() !== '' && isFinite(Number(value)) ? Number(value) : null);
+    }
+
+    public bool(name: string, fallback: boolean): boolean {
+        return this.parse(name, fallback, 'true or false', value => value === 'true' ? true : value === 'false' ? false : null);
+    }
+
+    public oneOf<T extends string>(name: string, values: T[], fallback: T): T {
+        return this.parse(name, fallback, `one of ${values.join(', ')}`, value => values.includes(value as T) ? value as T : null);
+    }
+
+    private parse<T>(name: string, fallback: T, expected: string, parse: (value: string) => T | null): T {
+        const setting = this.get(name);
+        if (setting === undefined) {
+            return fallback;
+        }
+        const parsed = parse(setting.value);
+        if (parsed === null) {
+            this.problems.push(`${setting.origin} must be ${expected}, got "${setting.value}"`);
+            return fallback;
+        }
+        return parsed;
+    }
+}
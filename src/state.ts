@@ -0,0 +1,81 @@
+import fs from 'fs';
+import { DraftBoardState } from './board';
+import { UpstreamMode } from './config';
+import { Logger } from './logging';
+
+// Room state file
+// Written on shutdown and read once on boot, so a restart mid-draft keeps each room's sequence
+// numbers, seats, autopick queues and draft board. Snapshots are not kept, as a restored seat
+// reconnects to Yahoo, which sends a fresh initialization. Yahoo auth values are never written: a
+// seat is identified by its seat key (a hash of the credential in per_auth rooms) and takes its
+// auth from the first client that rejoins it.
+
+const STATE_VERSION = 1;
+
+export interface PersistedSeat {
+    key: string;
+    draftPosition: number;
+    platformUserId: string;
+}
+
+export interface PersistedAutopick {
+    draftPosition: number;
+    playerIds: string[];
+    enabled: boolean;
+}
+
+export interface PersistedRoom {
+    leagueId: string;
+    yahooWebSocketUrl: string;
+    upstreamMode: UpstreamMode;
+    seq: number;
+    seats: PersistedSeat[];
+    autopicks: PersistedAutopick[];
+    managers: { draftPosition: number; platformUserId: string }[];
+    board: DraftBoardState;
+    draftCompleted: boolean;
+}
+
+export interface PersistedState {
+    version: number;
+    savedAt: number; // Epoch milliseconds
+    rooms: PersistedRoom[];
+}
+
+export function saveState(filePath: string, rooms: PersistedRoom[], logger: Logger): void {
+    const state: PersistedState = { version: STATE_VERSION, savedAt: Date.now(), rooms };
+    const tempPath = `${filePath}.tmp`;
+    try {
+        fs.writeFileSync(tempPath, JSON.stringify(state), { mode: 0o600 });
+        fs.renameSync(tempPath, filePath);
+        logger.info(`💾 Saved state of ${rooms.length} rooms to ${filePath}`);
+    } catch (error) {
+        logger.error(`❌ Failed to save room state to ${filePath}:`, error);
+    }
+}
+
+// Reads and removes the state file, so a state is restored at most once. Returns null if there is
+// no usable state.
+export function takeState(filePath: string, logger: Logger): PersistedState | null {
+    let state: PersistedState;
+    try {
+        state = JSON.parse(fs.readFileSync(filePath, 'utf8')) as PersistedState;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            logger.error(`❌ Failed to read room state from ${filePath}:`, error);
+        }
+        return null;
+    }
+
+    try {
+        fs.unlinkSync(filePath);
+    } catch (error) {
+        logger.warn(`⚠️ Could not remove room state file ${filePath}:`, error);
+    }
+
+    if (state.version !== STATE_VERSION || !Array.isArray(state.rooms)) {
+        logger.warn(`⚠️ Ignoring room state file ${filePath} with unsupported version ${state.version}`);
+        return null;
+    }
+    return state;
+}
@@ -1,9 +1,133 @@
-// Simple telemetry module for graceful shutdown
-// This is a stub implementation - you can extend this with actual OTLP telemetry if needed
-
-export async function otlpShutdown(): Promise<void> {
-    // Placeholder for OTLP (OpenTelemetry Protocol) shutdown
-    // If you're using OpenTelemetry, you would shut down the SDK here
-    console.log('📊 Telemetry shutdown complete');
-    return Promise.resolve();
-}
\ No newline at end of file
+import { Attributes, Span, SpanStatusCode, context, isSpanContextValid, metrics, trace } from '@opentelemetry/api';
+import { NodeSDK } from '@opentelemetry/sdk-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { PeriodicExportingMetricReader } from '@opentelemetry/sdk-metrics';
+import { Resource } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { Logger } from './logging';
+
+// OpenTelemetry tracing and metrics
+// Enabled with OTEL_ENABLED=true, which requires OTEL_EXPORTER_OTLP_ENDPOINT; spans and metrics
+// are exported there over OTLP/HTTP. When disabled, the API's no-op tracer and meter are used and
+// nothing is recorded.
+
+export const SERVICE_NAME = 'yahoo-websocket-proxy';
+
+export interface TelemetrySettings {
+    otelEnabled: boolean;
+    otelEndpoint?: string; // OTLP/HTTP base URL; required when enabled
+    otelServiceName: string;
+}
+
+let sdk: NodeSDK | null = null;
+
+// The tracer delegates to whichever provider is registered, so it can be taken before the SDK starts
+export const tracer = trace.getTracer(SERVICE_NAME);
+
+function createInstruments() {
+    const meter = metrics.getMeter(SERVICE_NAME);
+    return {
+        roomsCreated: meter.createCounter('proxy.rooms.created', {
+            description: 'League rooms created'
+        }),
+        roomsCleanedUp: meter.createCounter('proxy.rooms.cleaned_up', {
+            description: 'League rooms cleaned up'
+        }),
+        clientReconnectRequests: meter.createCounter('proxy.client.reconnect_requests', {
+            description: 'Client-initiated Yahoo reconnection requests'
+        }),
+        upstreamConnectDuration: meter.createHistogram('proxy.upstream.connect.duration', {
+            description: 'Time from starting a Yahoo connection until it opens',
+            unit: 'ms'
+        }),
+        upstreamLatency: meter.createHistogram('proxy.upstream.latency', {
+            description: 'Round trip of pings to Yahoo',
+            unit: 'ms'
+        })
+    };
+}
+
+// No-op until initTelemetry replaces them with instruments of the started SDK's meter
+export const otelMetrics = createInstruments();
+
+export function initTelemetry(settings: TelemetrySettings): void {
+    if (!settings.otelEnabled || !settings.otelEndpoint || sdk) {
+        return;
+    }
+    const endpoint = settings.otelEndpoint.replace(/\/+$/, '');
+    sdk = new NodeSDK({
+        resource: new Resource({ [ATTR_SERVICE_NAME]: settings.otelServiceName }),
+        traceExporter: new OTLPTraceExporter({ url: `${endpoint}/v1/traces` }),
+        metricReader: new PeriodicExportingMetricReader({
+            exporter: new OTLPMetricExporter({ url: `${endpoint}/v1/metrics` })
+        }),
+        instrumentations: []
+    });
+    sdk.start();
+    // Meters have no delegating proxy, so instruments taken before the SDK started stay no-ops
+    Object.assign(otelMetrics, createInstruments());
+}
+
+export function leagueAttributes(leagueId: string, draftPosition?: number): Attributes {
+    const attributes: Attributes = { 'league.id': leagueId };
+    if (draftPosition !== undefined) {
+        attributes['draft.position'] = draftPosition;
+    }
+    return attributes;
+}
+
+export function recordSpanError(span: Span, error: unknown): void {
+    span.recordException(error instanceof Error ? error : String(error));
+    span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+}
+
+// Runs fn inside a new active span, so logs written by fn carry its trace ID. The span ends
+// when fn returns, or when the returned promise settles.
+export function withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => T): T {
+    return tracer.startActiveSpan(name, { attributes }, (span) => {
+        let result: T;
+        try {
+            result = fn(span);
+        } catch (error) {
+            recordSpanError(span, error);
+            span.end();
+            throw error;
+        }
+
+        if (result instanceof Promise) {
+            return result.then(
+                (value) => {
+                    span.end();
+                    return value;
+                },
+                (error) => {
+                    recordSpanError(span, error);
+                    span.end();
+                    throw error;
+                }
+            ) as T;
+        }
+
+        span.end();
+        return result;
+    });
+}
+
+// Trace and span ID of the active span, for log correlation
+export function activeTraceIds(): { traceId: string; spanId: string } | undefined {
+    const spanContext = trace.getSpan(context.active())?.spanContext();
+    if (!spanContext || !isSpanContextValid(spanContext)) {
+        return undefined;
+    }
+    return { traceId: spanContext.traceId, spanId: spanContext.spanId };
+}
+
+export async function otlpShutdown(logger: Logger): Promise<void> {
+    if (!sdk) {
+        return;
+    }
+    // Flushes pending spans and metrics before the exporters close
+    await sdk.shutdown();
+    logger.info('📊 Telemetry shutdown complete');
+}
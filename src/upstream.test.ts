@@ -0,0 +1,128 @@
+import dns from 'dns';
+import { checkUpstreamUrl, createGuardedLookup, isPrivateAddress, UpstreamPolicy, UpstreamRefusedError } from './upstream';
+
+const policy: UpstreamPolicy = {
+    allowedHosts: ['*.fantasysports.yahoo.com', 'localhost', '127.0.0.1', '::1'],
+    allowedSchemes: ['wss'],
+    allowPrivateAddresses: false
+};
+
+describe('isPrivateAddress', () => {
+    it.each([
+        ['IPv4 private', '10.1.2.3'],
+        ['IPv4 private', '172.16.0.1'],
+        ['IPv4 private', '192.168.1.1'],
+        ['IPv4 loopback', '127.0.0.1'],
+        ['IPv4 link-local', '169.254.169.254'],
+        ['IPv4 carrier-grade NAT', '100.64.0.1'],
+        ['IPv4 unspecified', '0.0.0.0'],
+        ['IPv4 multicast', '224.0.0.1'],
+        ['IPv4 broadcast', '255.255.255.255'],
+        ['IETF protocol assignments', '192.0.0.8'],
+        ['documentation', '192.0.2.1'],
+        ['documentation', '198.51.100.7'],
+        ['documentation', '203.0.113.200'],
+        ['IPv6 loopback', '::1'],
+        ['IPv6 unspecified', '::'],
+        ['IPv6 unique local', 'fd00::1'],
+        ['IPv6 link-local', 'fe80::1'],
+        ['IPv6 documentation', '2001:db8::1'],
+        ['IPv4-mapped loopback', '::ffff:127.0.0.1'],
+        ['IPv4-mapped private, in hex', '::ffff:a00:1'],
+        ['IPv4-compatible loopback', '::127.0.0.1'],
+        ['NAT64 loopback', '64:ff9b::7f00:1']
+    ])('refuses %s address %s', (_description, address) => {
+        expect(isPrivateAddress(address)).toBe(true);
+    });
+
+    it.each([
+        '8.8.8.8',
+        '192.0.3.1',
+        '203.0.114.1',
+        '2606:4700::1111',
+        '2001:db9::1',
+        '::ffff:8.8.8.8',
+        '64:ff9b::808:808'
+    ])('allows public address %s', (address) => {
+        expect(isPrivateAddress(address)).toBe(false);
+    });
+
+    it('does not judge hostnames', () => {
+        expect(isPrivateAddress('localhost')).toBe(false);
+    });
+});
+
+describe('checkUpstreamUrl', () => {
+    const refusal = (url: string, urlPolicy: UpstreamPolicy = policy): string => {
+        try {
+            checkUpstreamUrl(url, urlPolicy);
+        } catch (error) {
+            if (error instanceof UpstreamRefusedError) {
+                return error.message;
+            }
+            throw error;
+        }
+        throw new Error(`Expected ${url} to be refused`);
+    };
+
+    it('allows hosts matching the allowlist, including subdomains of a wildcard', () => {
+        expect(checkUpstreamUrl('wss://pub-api-rw.fantasysports.yahoo.com/draft', policy).hostname).toBe('pub-api-rw.fantasysports.yahoo.com');
+    });
+
+    it('refuses hosts outside the allowlist', () => {
+        expect(refusal('wss://fantasysports.yahoo.com.evil.example/draft')).toBe('Upstream host not allowed: fantasysports.yahoo.com.evil.example');
+        expect(refusal('wss://evilfantasysports.yahoo.com/draft')).toBe('Upstream host not allowed: evilfantasysports.yahoo.com');
+    });
+
+    it('refuses schemes outside the allowlist and unparseable URLs', () => {
+        expect(refusal('ws://pub-api-rw.fantasysports.yahoo.com/draft')).toBe('Upstream scheme not allowed: ws');
+        expect(refusal('not a url')).toBe('Invalid upstream URL: not a url');
+    });
+
+    it('refuses allowed literal addresses that are private unless private addresses are allowed', () => {
+        expect(refusal('wss://127.0.0.1/draft')).toBe('Upstream address is private: 127.0.0.1');
+        expect(refusal('wss://[::1]/draft')).toBe('Upstream address is private: ::1');
+        expect(checkUpstreamUrl('wss://127.0.0.1/draft', { ...policy, allowPrivateAddresses: true }).hostname).toBe('127.0.0.1');
+    });
+});
+
+describe('createGuardedLookup', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    // Makes every hostname resolve to the given addresses
+    const resolveTo = (...addresses: string[]) => {
+        jest.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: dns.LookupAllOptions, callback: (error: NodeJS.ErrnoException | null, addresses: dns.LookupAddress[]) => void) => {
+            callback(null, addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 })));
+        }) as unknown as typeof dns.lookup);
+    };
+
+    // net passes `all: false` unless autoSelectFamily is on, whatever @types/node declares
+    const lookup = (lookupPolicy: UpstreamPolicy, all: boolean) => new Promise<{ error: Error | null; result: unknown }>(resolve => {
+        createGuardedLookup(lookupPolicy)('draft.example.com', { all } as dns.LookupAllOptions, (error: Error | null, ...result: unknown[]) => resolve({ error, result }));
+    });
+
+    it('refuses a hostname that resolves to a private address', async () => {
+        resolveTo('93.184.216.34', '::ffff:10.0.0.5');
+
+        const { error } = await lookup(policy, false);
+
+        expect(error).toBeInstanceOf(UpstreamRefusedError);
+        expect(error!.message).toBe('Upstream host draft.example.com resolves to private address ::ffff:10.0.0.5');
+    });
+
+    it('passes on public addresses in the form the caller asked for', async () => {
+        resolveTo('93.184.216.34', '2606:2800:220:1::1');
+
+        expect(await lookup(policy, false)).toEqual({ error: null, result: ['93.184.216.34', 4] });
+        expect(await lookup(policy, true)).toEqual({
+            error: null,
+            result: [[{ address: '93.184.216.34', family: 4 }, { address: '2606:2800:220:1::1', family: 6 }]]
+        });
+    });
+
+    it('passes on private addresses when the policy allows them', async () => {
+        resolveTo('127.0.0.1');
+
+        expect(await lookup({ ...policy, allowPrivateAddresses: true }, false)).toEqual({ error: null, result: ['127.0.0.1', 4] });
+    });
+});
@@ -0,0 +1,153 @@
+import dns from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+// Upstream URL policy
+// Guards the websocketUrl supplied by clients so the proxy only opens sockets to allowed hosts.
+
+export interface UpstreamPolicy {
+    allowedHosts: string[]; // Exact hosts or `*.domain` patterns matching any subdomain
+    allowedSchemes: string[]; // e.g. ['wss']
+    allowPrivateAddresses: boolean;
+}
+
+export class UpstreamRefusedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UpstreamRefusedError';
+    }
+}
+
+const privateRanges = new BlockList();
+privateRanges.addSubnet('0.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('10.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('100.64.0.0', 10, 'ipv4');
+privateRanges.addSubnet('127.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('169.254.0.0', 16, 'ipv4');
+privateRanges.addSubnet('172.16.0.0', 12, 'ipv4');
+privateRanges.addSubnet('192.0.0.0', 24, 'ipv4'); // IETF protocol assignments
+privateRanges.addSubnet('192.0.2.0', 24, 'ipv4'); // Documentation (TEST-NET-1)
+privateRanges.addSubnet('192.168.0.0', 16, 'ipv4');
+privateRanges.addSubnet('198.18.0.0', 15, 'ipv4'); // Benchmarking
+privateRanges.addSubnet('198.51.100.0', 24, 'ipv4'); // Documentation (TEST-NET-2)
+privateRanges.addSubnet('203.0.113.0', 24, 'ipv4'); // Documentation (TEST-NET-3)
+privateRanges.addSubnet('224.0.0.0', 4, 'ipv4'); // Multicast
+privateRanges.addSubnet('240.0.0.0', 4, 'ipv4'); // Reserved, including broadcast
+privateRanges.addAddress('::', 'ipv6');
+privateRanges.addAddress('::1', 'ipv6');
+privateRanges.addSubnet('2001:db8::', 32, 'ipv6'); // Documentation
+privateRanges.addSubnet('fc00::', 7, 'ipv6');
+privateRanges.addSubnet('fe80::', 10, 'ipv6');
+
+// IPv6 prefixes whose last 32 bits are an IPv4 address: IPv4-compatible (::/96), IPv4-mapped
+// (::ffff:0:0/96) and NAT64 (64:ff9b::/96). Such addresses are checked against the IPv4 ranges.
+const IPV4_EMBEDDING_PREFIXES = [
+    [0, 0, 0, 0, 0, 0],
+    [0, 0, 0, 0, 0, 0xffff],
+    [0x64, 0xff9b, 0, 0, 0, 0]
+];
+
+// The eight 16-bit groups of a valid IPv6 address, which may end in a dotted IPv4 address
+function ipv6Groups(address: string): number[] {
+    let text = address.toLowerCase();
+    const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (dotted) {
+        const [a, b, c, d] = dotted.slice(2).map(Number);
+        text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+    }
+    const [head, tail] = text.split('::');
+    const parse = (part: string | undefined) => part ? part.split(':').map(group => parseInt(group, 16)) : [];
+    const headGroups = parse(head);
+    const tailGroups = parse(tail);
+    const zeros = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill(0);
+    return [...headGroups, ...zeros, ...tailGroups];
+}
+
+function embeddedIPv4(address: string): string | null {
+    const groups = ipv6Groups(address);
+    if (!IPV4_EMBEDDING_PREFIXES.some(prefix => prefix.every((group, i) => groups[i] === group))) {
+        return null;
+    }
+    return [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+}
+
+export function isPrivateAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 4) {
+        return privateRanges.check(address, 'ipv4');
+    }
+    if (family === 6) {
+        const ipv4 = embeddedIPv4(address);
+        return ipv4 !== null ? privateRanges.check(ipv4, 'ipv4') : privateRanges.check(address, 'ipv6');
+    }
+    return false;
+}
+
+function matchesHostPattern(hostname: string, pattern: string): boolean {
+    const normalizedPattern = pattern.trim().toLowerCase();
+    if (normalizedPattern.startsWith('*.')) {
+        return hostname.endsWith(normalizedPattern.substring(1));
+    }
+    return hostname === normalizedPattern;
+}
+
+// Checks scheme and host of an upstream URL. Literal IP hosts are checked against private ranges
+// here; hostnames are checked after resolution by the lookup from createGuardedLookup.
+export function checkUpstreamUrl(rawUrl: string, policy: UpstreamPolicy): URL {
+    let url: URL;
+    try {
+        url = new URL(rawUrl);
+    } catch {
+        throw new UpstreamRefusedError(`Invalid upstream URL: ${rawUrl}`);
+    }
+
+    const scheme = url.protocol.replace(/:$/, '');
+    if (!policy.allowedSchemes.includes(scheme)) {
+        throw new UpstreamRefusedError(`Upstream scheme not allowed: ${scheme}`);
+    }
+
+    // URL keeps brackets around IPv6 literals
+    const hostname = url.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+    if (!policy.allowedHosts.some(pattern => matchesHostPattern(hostname, pattern))) {
+        throw new UpstreamRefusedError(`Upstream host not allowed: ${hostname}`);
+    }
+
+    if (!policy.allowPrivateAddresses && isPrivateAddress(hostname)) {
+        throw new UpstreamRefusedError(`Upstream address is private: ${hostname}`);
+    }
+
+    return url;
+}
+
+// @types/node declares that net always looks up with `all: true`, but it only does when
+// autoSelectFamily is on, and otherwise expects dns.lookup's single-address callback
+type LookupCallback = {
+    (error: NodeJS.ErrnoException | null, addresses: dns.LookupAddress[]): void;
+    (error: NodeJS.ErrnoException | null, address: string, family: number): void;
+};
+
+// DNS lookup for upstream sockets that refuses private addresses. Checking at connect time
+// rather than before it means a hostname cannot re-resolve to an internal address in between.
+export function createGuardedLookup(policy: UpstreamPolicy): LookupFunction {
+    return (hostname, options: dns.LookupOptions, lookupCallback) => {
+        const callback = lookupCallback as LookupCallback;
+        dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+            if (error) {
+                return callback(error, []);
+            }
+
+            if (!policy.allowPrivateAddresses) {
+                const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+                if (blocked) {
+                    return callback(new UpstreamRefusedError(`Upstream host ${hostname} resolves to private address ${blocked.address}`), []);
+                }
+            }
+
+            if (options.all) {
+                callback(null, addresses);
+            } else {
+                // net only sets `all` when autoSelectFamily is on; otherwise it expects a single address
+                callback(null, addresses[0].address, addresses[0].family);
+            }
+        });
+    };
+}
@@ -0,0 +1,204 @@
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import RedisMock from 'ioredis-mock';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileWebhookStore, RedisWebhookStore, signWebhookBody, WebhookDispatcher, WebhookOptions, WebhookStore } from './webhooks';
+
+const logger = { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+
+const SECRET = 'webhook-test-secret';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const eventually = async (check: () => boolean, timeoutMs = 2000): Promise<void> => {
+    const deadline = Date.now() + timeoutMs;
+    while (!check()) {
+        if (Date.now() > deadline) {
+            throw new Error('Timed out waiting for a condition');
+        }
+        await sleep(10);
+    }
+};
+
+interface ReceivedRequest {
+    headers: IncomingHttpHeaders;
+    body: string;
+}
+
+// Receives webhooks, answering with the queued statuses and then 200
+class Receiver {
+    public readonly requests: ReceivedRequest[] = [];
+    public statuses: number[] = [];
+    public url = '';
+    private server!: Server;
+
+    public async start(): Promise<void> {
+        this.server = createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                this.requests.push({ headers: req.headers, body });
+                res.writeHead(this.statuses.shift() ?? 200).end();
+            });
+        });
+        await new Promise<void>(resolve => this.server.listen(0, resolve));
+        this.url = `http://localhost:${(this.server.address() as AddressInfo).port}/hooks`;
+    }
+
+    public close(): Promise<void> {
+        this.server.closeAllConnections();
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
+
+describe('signWebhookBody', () => {
+    it('is the hex HMAC-SHA256 of the body keyed with the secret', () => {
+        expect(signWebhookBody('{"id":"1"}', 's3cret')).toBe('sha256=06988fa1cf02b8383043f7f2735f723f7bb350950d9214409cde13490d6a6373');
+    });
+});
+
+describe('WebhookDispatcher', () => {
+    let dir: string;
+    let receiver: Receiver;
+    let dispatchers: WebhookDispatcher[];
+
+    const createDispatcher = (options: WebhookOptions = {}, store: WebhookStore = new FileWebhookStore(join(dir, 'webhooks.json'), logger)) => {
+        const dispatcher = new WebhookDispatcher(store, { retryBaseDelayMs: 20, retryMaxDelayMs: 1000, ...options }, logger);
+        dispatchers.push(dispatcher);
+        return dispatcher;
+    };
+
+    // The delays of the retries logged so far
+    const retryDelays = () => logger.warn.mock.calls.map(([message]) => Number(/retrying in (\d+)ms/.exec(message)?.[1]));
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        dir = mkdtempSync(join(tmpdir(), 'proxy-webhooks-'));
+        receiver = new Receiver();
+        await receiver.start();
+        dispatchers = [];
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await Promise.all(dispatchers.map(dispatcher => dispatcher.close()));
+        await receiver.close();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('delivery', () => {
+        it('signs each body with the subscription secret', async () => {
+            const dispatcher = createDispatcher();
+            await dispatcher.subscribe('L1', receiver.url, undefined, SECRET);
+
+            dispatcher.emit('L1', 'draft.pick', { overallPick: 1, playerId: 'p1' });
+            await eventually(() => receiver.requests.length === 1);
+
+            const [{ headers, body }] = receiver.requests;
+            const payload = JSON.parse(body);
+            expect(payload).toMatchObject({ type: 'draft.pick', leagueId: 'L1', data: { overallPick: 1, playerId: 'p1' } });
+            expect(headers['x-webhook-signature']).toBe(signWebhookBody(body, SECRET));
+            expect(headers['x-webhook-id']).toBe(payload.id);
+            expect(headers['x-webhook-event']).toBe('draft.pick');
+        });
+
+        it('only delivers the league and events a subscription asked for', async () => {
+            const dispatcher = createDispatcher();
+            await dispatcher.subscribe('L1', receiver.url, ['draft.completed']);
+
+            dispatcher.emit('L2', 'draft.completed');
+            dispatcher.emit('L1', 'draft.pick');
+            dispatcher.emit('L1', 'draft.completed');
+            await eventually(() => receiver.requests.length === 1);
+            await sleep(50);
+
+            expect(receiver.requests.map(request => JSON.parse(request.body))).toEqual([expect.objectContaining({ leagueId: 'L1', type: 'draft.completed' })]);
+        });
+    });
+
+    describe('retries', () => {
+        it('retries failed deliveries with exponential backoff, keeping the event ID', async () => {
+            jest.spyOn(Math, 'random').mockReturnValue(1);
+            receiver.statuses = [500, 503];
+            const dispatcher = createDispatcher();
+            await dispatcher.subscribe('L1', receiver.url);
+
+            dispatcher.emit('L1', 'room.created');
+            await eventually(() => receiver.requests.length === 3);
+
+            expect(new Set(receiver.requests.map(request => request.headers['x-webhook-id'])).size).toBe(1);
+            expect(retryDelays()).toEqual([20, 40]);
+            expect(dispatcher.listDeadLetters()).toEqual([]);
+        });
+
+        it('waits at least half of the exponential delay, up to the maximum', async () => {
+            jest.spyOn(Math, 'random').mockReturnValue(0);
+            receiver.statuses = [500, 500, 500, 500];
+            const dispatcher = createDispatcher({ retryMaxDelayMs: 60 });
+            await dispatcher.subscribe('L1', receiver.url);
+
+            dispatcher.emit('L1', 'room.created');
+            await eventually(() => receiver.requests.length === 5);
+
+            expect(retryDelays()).toEqual([10, 20, 30, 30]);
+        });
+
+        it('dead-letters a delivery that fails every attempt', async () => {
+            receiver.statuses = [500, 500, 500];
+            const dispatcher = createDispatcher({ maxAttempts: 3 });
+            const subscription = await dispatcher.subscribe('L1', receiver.url);
+
+            dispatcher.emit('L1', 'room.closed');
+            await eventually(() => dispatcher.listDeadLetters().length === 1);
+
+            expect(receiver.requests).toHaveLength(3);
+            expect(dispatcher.listDeadLetters()[0]).toMatchObject({
+                subscriptionId: subscription.id,
+                url: receiver.url,
+                attempts: 3,
+                error: 'HTTP 500',
+                payload: { type: 'room.closed', leagueId: 'L1' }
+            });
+        });
+
+        it('stops retrying once the subscription is deleted', async () => {
+            receiver.statuses = [500, 500, 500];
+            const dispatcher = createDispatcher({ retryBaseDelayMs: 100 });
+            const subscription = await dispatcher.subscribe('L1', receiver.url);
+
+            dispatcher.emit('L1', 'room.created');
+            await eventually(() => receiver.requests.length === 1);
+            await dispatcher.unsubscribe(subscription.id);
+            await sleep(250);
+
+            expect(receiver.requests).toHaveLength(1);
+            expect(dispatcher.listDeadLetters()).toEqual([]);
+        });
+    });
+
+    describe('subscription stores', () => {
+        it('keeps subscriptions in the store file across restarts, readable by its owner only', async () => {
+            const subscription = await createDispatcher().subscribe('L1', receiver.url, ['draft.pick'], SECRET);
+
+            const restarted = createDispatcher();
+
+            expect(await restarted.list()).toEqual([{ id: subscription.id, leagueId: 'L1', url: receiver.url, events: ['draft.pick'], createdAt: subscription.createdAt }]);
+            expect(statSync(join(dir, 'webhooks.json')).mode & 0o777).toBe(0o600);
+        });
+
+        it('delivers from any node to subscriptions registered on another through Redis', async () => {
+            const keyPrefix = `test-${Math.random().toString(36).slice(2)}`;
+            const a = createDispatcher({}, new RedisWebhookStore(new RedisMock(), logger, keyPrefix));
+            const b = createDispatcher({}, new RedisWebhookStore(new RedisMock(), logger, keyPrefix));
+            await a.subscribe('L1', receiver.url, undefined, SECRET);
+
+            b.emit('L1', 'draft.on_clock');
+            await eventually(() => receiver.requests.length === 1);
+
+            expect(receiver.requests[0].headers['x-webhook-signature']).toBe(signWebhookBody(receiver.requests[0].body, SECRET));
+            expect(await b.list('L1')).toHaveLength(1);
+        });
+    });
+});
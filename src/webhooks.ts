@@ -0,0 +1,358 @@
+import fs from 'fs';
+import { createHmac, randomBytes } from 'crypto';
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from './logging';
+import { metrics } from './metrics';
+
+// Outbound webhooks
+// Per-league subscriptions receive room lifecycle and draft events as JSON POSTs. Each request
+// carries `X-Webhook-Signature: sha256=<hex>`, an HMAC-SHA256 of the raw body keyed with the
+// subscription secret. Failed deliveries are retried with backoff, then dead-lettered.
+// Subscriptions outlive restarts: a single node keeps them in a file, and nodes sharing a Redis
+// registry keep them in Redis, so every node delivers to subscriptions registered on any node.
+
+export const WEBHOOK_EVENTS = [
+    'room.created',
+    'room.closed',
+    'upstream.lost',
+    'draft.on_clock',
+    'draft.pick',
+    'draft.autopick',
+    'draft.completed'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+export interface WebhookSubscription {
+    id: string;
+    leagueId: string;
+    url: string;
+    events: WebhookEventType[]; // Empty subscribes to every event
+    secret: string;
+    createdAt: number;
+}
+
+export interface WebhookPayload {
+    id: string; // Same for every attempt, so receivers can drop duplicates
+    type: WebhookEventType;
+    leagueId: string;
+    ts: number; // Epoch milliseconds when the event happened
+    data: Record<string, unknown>;
+}
+
+export interface DeadLetter {
+    ts: number;
+    subscriptionId: string;
+    url: string;
+    attempts: number;
+    error: string;
+    payload: WebhookPayload;
+}
+
+export interface WebhookOptions {
+    maxAttempts?: number;
+    retryBaseDelayMs?: number;
+    retryMaxDelayMs?: number;
+    timeoutMs?: number; // Per attempt
+    deadLetterPath?: string; // JSONL file that failed deliveries are appended to
+}
+
+// Invalid subscription requests
+export class WebhookSubscriptionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WebhookSubscriptionError';
+    }
+}
+
+// Dead letters kept in memory for the admin API
+const DEAD_LETTER_WINDOW = 100;
+
+export function signWebhookBody(body: string, secret: string): string {
+    return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+// Where subscriptions are kept, including their signing secrets
+export interface WebhookStore {
+    add(subscription: WebhookSubscription): Promise<void>;
+    // Returns false if there was no such subscription
+    remove(subscriptionId: string): Promise<boolean>;
+    get(subscriptionId: string): Promise<WebhookSubscription | null>;
+    list(leagueId?: string): Promise<WebhookSubscription[]>;
+    close(): Promise<void>;
+}
+
+// Single node: subscriptions are held in memory and the whole file is rewritten on every change.
+// A change that cannot be written is undone and its error passed on.
+export class FileWebhookStore implements WebhookStore {
+    public readonly filePath: string;
+    private subscriptions: Map<string, WebhookSubscription> = new Map(); // Map<subscriptionId, WebhookSubscription>
+    private logger: Logger;
+
+    constructor(filePath: string, logger: Logger) {
+        this.filePath = filePath;
+        this.logger = logger;
+        this.load();
+    }
+
+    private load(): void {
+        let stored: WebhookSubscription[];
+        try {
+            stored = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as WebhookSubscription[];
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                this.logger.error(`❌ Failed to read webhook subscriptions from ${this.filePath}:`, error);
+            }
+            return;
+        }
+        stored.forEach(subscription => this.subscriptions.set(subscription.id, subscription));
+        this.logger.info(`🪝 Loaded ${stored.length} webhook subscriptions from ${this.filePath}`);
+    }
+
+    // The file holds signing secrets, so it is only readable by its owner
+    private save(): void {
+        const tempPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(Array.from(this.subscriptions.values())), { mode: 0o600 });
+        fs.renameSync(tempPath, this.filePath);
+    }
+
+    public async add(subscription: WebhookSubscription): Promise<void> {
+        this.subscriptions.set(subscription.id, subscription);
+        try {
+            this.save();
+        } catch (error) {
+            this.subscriptions.delete(subscription.id);
+            throw error;
+        }
+    }
+
+    public async remove(subscriptionId: string): Promise<boolean> {
+        const subscription = this.subscriptions.get(subscriptionId);
+        if (!subscription) {
+            return false;
+        }
+        this.subscriptions.delete(subscriptionId);
+        try {
+            this.save();
+        } catch (error) {
+            this.subscriptions.set(subscriptionId, subscription);
+            throw error;
+        }
+        return true;
+    }
+
+    public async get(subscriptionId: string): Promise<WebhookSubscription | null> {
+        return this.subscriptions.get(subscriptionId) || null;
+    }
+
+    public async list(leagueId?: string): Promise<WebhookSubscription[]> {
+        return Array.from(this.subscriptions.values()).filter(subscription => !leagueId || subscription.leagueId === leagueId);
+    }
+
+    public async close(): Promise<void> {}
+}
+
+// Multiple nodes: one hash of subscription JSON keyed by subscription ID, next to the registry's keys
+export class RedisWebhookStore implements WebhookStore {
+    private redis: Redis;
+    private readonly key: string;
+
+    constructor(redis: Redis, logger: Logger, keyPrefix: string = 'yahoo-proxy') {
+        this.redis = redis;
+        this.key = `${keyPrefix}:webhooks`;
+        this.redis.on('error', (error) => logger.error('❌ Redis webhook store error:', error));
+    }
+
+    public async add(subscription: WebhookSubscription): Promise<void> {
+        await this.redis.hset(this.key, subscription.id, JSON.stringify(subscription));
+    }
+
+    public async remove(subscriptionId: string): Promise<boolean> {
+        return await this.redis.hdel(this.key, subscriptionId) > 0;
+    }
+
+    public async get(subscriptionId: string): Promise<WebhookSubscription | null> {
+        const stored = await this.redis.hget(this.key, subscriptionId);
+        return stored ? JSON.parse(stored) as WebhookSubscription : null;
+    }
+
+    public async list(leagueId?: string): Promise<WebhookSubscription[]> {
+        const subscriptions = (await this.redis.hvals(this.key)).map(stored => JSON.parse(stored) as WebhookSubscription);
+        return subscriptions.filter(subscription => !leagueId || subscription.leagueId === leagueId);
+    }
+
+    public async close(): Promise<void> {
+        await this.redis.quit();
+    }
+}
+
+export class WebhookDispatcher {
+    private store: WebhookStore;
+    private deadLetters: DeadLetter[] = [];
+    private retryTimers: Set<NodeJS.Timeout> = new Set();
+    private deadLetterStream?: fs.WriteStream;
+    private readonly maxAttempts: number;
+    private readonly retryBaseDelayMs: number;
+    private readonly retryMaxDelayMs: number;
+    private readonly timeoutMs: number;
+    private closed: boolean = false;
+    private logger: Logger;
+
+    constructor(store: WebhookStore, options: WebhookOptions, logger: Logger) {
+        this.store = store;
+        this.maxAttempts = options.maxAttempts || 5;
+        this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+        this.retryMaxDelayMs = options.retryMaxDelayMs ?? 60000;
+        this.timeoutMs = options.timeoutMs || 5000;
+        this.logger = logger;
+        if (options.deadLetterPath) {
+            this.deadLetterStream = fs.createWriteStream(options.deadLetterPath, { flags: 'a' });
+            this.deadLetterStream.on('error', (error) => {
+                this.logger.error(`❌ Webhook dead-letter log error for ${options.deadLetterPath}:`, error);
+            });
+        }
+    }
+
+    // Returns the new subscription including its secret, which is never listed again
+    public async subscribe(leagueId: unknown, url: unknown, events?: unknown, secret?: unknown): Promise<WebhookSubscription> {
+        if (typeof leagueId !== 'string' || leagueId.length === 0) {
+            throw new WebhookSubscriptionError('leagueId must be a non-empty string');
+        }
+        if (typeof url !== 'string' || !isHttpUrl(url)) {
+            throw new WebhookSubscriptionError('url must be an http or https URL');
+        }
+        if (events !== undefined && (!Array.isArray(events) || !events.every(event => WEBHOOK_EVENTS.includes(event)))) {
+            throw new WebhookSubscriptionError(`events must be a list of: ${WEBHOOK_EVENTS.join(', ')}`);
+        }
+        if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+            throw new WebhookSubscriptionError('secret must be a string of at least 16 characters');
+        }
+
+        const subscription: WebhookSubscription = {
+            id: uuidv4(),
+            leagueId,
+            url,
+            events: (events as WebhookEventType[] | undefined) || [],
+            secret: (secret as string | undefined) || randomBytes(32).toString('hex'),
+            createdAt: Date.now()
+        };
+        await this.store.add(subscription);
+        return subscription;
+    }
+
+    public unsubscribe(subscriptionId: string): Promise<boolean> {
+        return this.store.remove(subscriptionId);
+    }
+
+    // Subscriptions without their secrets
+    public async list(leagueId?: string): Promise<Omit<WebhookSubscription, 'secret'>[]> {
+        return (await this.store.list(leagueId)).map(({ secret, ...subscription }) => subscription);
+    }
+
+    public listDeadLetters(): DeadLetter[] {
+        return [...this.deadLetters];
+    }
+
+    public emit(leagueId: string, type: WebhookEventType, data: Record<string, unknown> = {}): void {
+        const payload: WebhookPayload = { id: uuidv4(), type, leagueId, ts: Date.now(), data };
+        this.store.list(leagueId).then(subscriptions => {
+            subscriptions.forEach(subscription => {
+                if (subscription.events.length === 0 || subscription.events.includes(type)) {
+                    this.deliver(subscription, payload, 1);
+                }
+            });
+        }).catch(error => {
+            this.logger.error(`❌ Failed to look up webhook subscriptions for league ${leagueId}; ${type} webhook ${payload.id} not sent:`, error);
+        });
+    }
+
+    // A subscription may have been deleted on another node since the delivery started. When the
+    // store cannot be reached the delivery goes on.
+    private async isSubscribed(subscriptionId: string): Promise<boolean> {
+        try {
+            return await this.store.get(subscriptionId) !== null;
+        } catch (error) {
+            this.logger.error(`❌ Failed to look up webhook subscription ${subscriptionId}:`, error);
+            return true;
+        }
+    }
+
+    private deliver(subscription: WebhookSubscription, payload: WebhookPayload, attempt: number): void {
+        const body = JSON.stringify(payload);
+        fetch(subscription.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-Webhook-Id': payload.id,
+                'X-Webhook-Event': payload.type,
+                'X-Webhook-Signature': signWebhookBody(body, subscription.secret)
+            },
+            body,
+            signal: AbortSignal.timeout(this.timeoutMs)
+        }).then(response => {
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}`);
+            }
+            metrics.webhookDeliveries.inc({ outcome: 'delivered' });
+            this.logger.debug(`🪝 Delivered ${payload.type} webhook ${payload.id} to ${subscription.url}`);
+        }).catch((error: Error) => {
+            this.retryOrDeadLetter(subscription, payload, attempt, error.message);
+        });
+    }
+
+    private async retryOrDeadLetter(subscription: WebhookSubscription, payload: WebhookPayload, attempt: number, error: string): Promise<void> {
+        if (!await this.isSubscribed(subscription.id) || this.closed) {
+            return;
+        }
+
+        if (attempt >= this.maxAttempts) {
+            this.deadLetter({ ts: Date.now(), subscriptionId: subscription.id, url: subscription.url, attempts: attempt, error, payload });
+            return;
+        }
+
+        // Exponential backoff with jitter, as for Yahoo reconnections
+        const exponentialDelay = Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * Math.pow(2, attempt - 1));
+        const delayMs = Math.round(exponentialDelay / 2 + Math.random() * exponentialDelay / 2);
+        metrics.webhookDeliveries.inc({ outcome: 'retried' });
+        this.logger.warn(`⚠️ Webhook ${payload.id} to ${subscription.url} failed (${error}); retrying in ${delayMs}ms (attempt ${attempt + 1}/${this.maxAttempts})`);
+
+        const timer = setTimeout(() => {
+            this.retryTimers.delete(timer);
+            this.isSubscribed(subscription.id).then(subscribed => {
+                if (subscribed && !this.closed) {
+                    this.deliver(subscription, payload, attempt + 1);
+                }
+            });
+        }, delayMs);
+        this.retryTimers.add(timer);
+    }
+
+    private deadLetter(deadLetter: DeadLetter): void {
+        metrics.webhookDeliveries.inc({ outcome: 'dead_lettered' });
+        this.logger.error(`❌ Giving up on ${deadLetter.payload.type} webhook ${deadLetter.payload.id} to ${deadLetter.url} after ${deadLetter.attempts} attempts: ${deadLetter.error}`);
+        this.deadLetters.push(deadLetter);
+        if (this.deadLetters.length > DEAD_LETTER_WINDOW) {
+            this.deadLetters.shift();
+        }
+        this.deadLetterStream?.write(JSON.stringify(deadLetter) + '\n');
+    }
+
+    // Pending retries are dropped; deliveries already in flight still finish
+    public async close(): Promise<void> {
+        this.closed = true;
+        this.retryTimers.forEach(timer => clearTimeout(timer));
+        this.retryTimers.clear();
+        this.deadLetterStream?.end();
+        await this.store.close();
+    }
+}
+
+function isHttpUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}